@@ -1,10 +1,37 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { CanvasItem, Stroke, ToolMode, Widget, AIResult, MathType, StrokeStyle } from './types';
-import { COLORS, STROKE_WIDTHS, TOOL_DEFAULTS } from './constants';
-import { drawStroke, drawRuler, drawProtractor, drawSetSquare, drawCompass, drawImageWidget, drawTextWidget, getSnapPoint, getCompassPoints } from './components/CanvasUtils';
-import { solveMathFromImage, generateTikzCode } from './services/geminiService';
-import { compileTikz } from './services/tikzService';
+import { CanvasItem, Stroke, ToolMode, Widget, GeometryKind, GeometryObject, ShapeKind, ShapeItem, ShapeTool, ArrowheadStyle, AIResult, MathType, StrokeStyle, EraserMode, UnitSettings, BoardDocument, BoardSummary, BoardPage, PageBackground, Viewport, Bounds, ExportOptions } from './types';
+import { COLORS, STROKE_WIDTHS, TOOL_DEFAULTS, TEXT_DEFAULTS, AUTOSAVE_DELAY_MS, BOARD_FILE_EXTENSION, BOARD_SCHEMA_VERSION, ZOOM_STEP, MIN_ZOOM, MAX_ZOOM, MEASUREMENT_TOOL_TYPES, EXPORT_PADDING, SOLVE_REGION, HANDWRITING_OCR, PROTRACTOR_DEFAULT_ANGLE, TEXT_FONT_SIZES, ERASER_RADIUS, ERASER_SIZES, NEEDLE_SNAP_DISTANCE, MIN_DIMENSION_LENGTH, GEOMETRY_HIT_DISTANCE, SMART_INK, SHAPE_DEFAULTS, SHAPE_HANDLE_SIZE, SHAPE_CLOSE_DISTANCE, GRAPH_DEFAULTS } from './constants';
+import { drawStroke, drawShape, getSnapPoint, getCompassArc, getCompassGeometry, placeCompass, getProtractorArm, getProtractorAngleAt, createAngleMark, subscribeImageReady, getCompassPoints, screenToWorld, worldToScreen, getItemBounds, getVisibleWorldBounds, zoomAt, fitBounds, getContentBounds, isPointInWidgetBox } from './components/CanvasUtils';
+import { subscribeMathReady, layoutText } from './components/MathText';
+import { formatLength, getUnitSettings, saveUnitSettings, UNIT_SCALES } from './components/Units';
+import { createSceneLayer } from './components/BoardRenderer';
+import { invalidateSpatialIndex } from './components/SpatialIndex';
+import { erasePartial, findObjectsToErase } from './components/EraserUtils';
+import { findSnapTarget } from './components/SnapUtils';
+import { recognizeShape, applyRecognizedShape } from './components/ShapeRecognizer';
+import { createShape, dragShape, moveShapeVertex, findShapeVertex, isShape } from './components/ShapeUtils';
+import { solveGeometry, createGeometryPoint, createGeometryObject, nextPointLabel, getFreeAncestors, acceptsInput, isGeometry, GEOMETRY_TOOL_INPUTS } from './components/Geometry';
+import { createGraphSpec } from './components/GraphUtils';
+import { findItemAt, findItemsInRect, hitTestItem, getSelection, getSelectionCenter, translateItem, rotateItemAround } from './components/SelectionUtils';
+import Minimap from './components/Minimap';
+import PageStrip from './components/PageStrip';
+import ExportDialog from './components/ExportDialog';
+import TextEditor from './components/TextEditor';
+import UnitsDialog from './components/UnitsDialog';
+import AISettingsDialog from './components/AISettingsDialog';
+import SolutionSteps from './components/SolutionSteps';
+import HandwritingDialog from './components/HandwritingDialog';
+import GraphEditor from './components/GraphEditor';
+import TikzRendererPanel from './components/TikzRendererPanel';
+import TikzEditor from './components/TikzEditor';
+import { solveMathFromImage, recognizeHandwriting, generateTikzCode, repairTikzCode, getAISettings, saveAISettings, getAIProvider, AI_PROVIDERS } from './services/aiService';
+import { stepToBoardText, solutionToBoardBlocks } from './services/aiPrompts';
+import { compileWithRepair, getCompileLog, TikzRepairProgress } from './services/tikzService';
+import { createBoardDocument, isBlankBoard, createPage, duplicatePage, exportBoardFile, importBoardFile, getSafeFileName } from './services/boardService';
+import { exportPng, exportSvg, exportPdf, prepareExportItems, renderRegionToDataUrl, ExportPage } from './services/exportService';
+import { saveBoard, loadBoard, loadLastBoard, listRecentBoards, deleteBoard } from './services/boardStorage';
+import { useHistory } from './hooks/useHistory';
 import { v4 as uuidv4 } from 'uuid';
 
 // Icons
@@ -12,21 +39,113 @@ import {
   FaMousePointer, FaPen, FaEraser, FaFont, FaRuler, FaDraftingCompass, 
   FaShapes, FaMagnet, FaTrash, FaSave, FaRobot, FaCalculator, FaChartLine, 
   FaImage, FaTimes, FaCheckCircle, FaPaste, FaHighlighter, FaGripLines, FaEllipsisH, FaCircleNotch,
-  FaLayerGroup, FaEye, FaEyeSlash
+  FaLayerGroup, FaEye, FaEyeSlash, FaFolderOpen, FaFileExport, FaFileImport, FaPlus, FaHistory, FaUndo, FaRedo,
+  FaSearchPlus, FaSearchMinus, FaExpand, FaMap, FaHandPaper, FaDownload, FaProjectDiagram, FaMagic, FaVectorSquare, FaChartArea, FaCrop, FaSignature
 } from 'react-icons/fa';
 import { MdOutlineLinearScale, MdBorderStyle } from "react-icons/md";
 
+const BACKGROUNDS: PageBackground[] = ['plain', 'grid', 'lined', 'dotted'];
+
+const SHAPE_TOOLS: { kind: ShapeTool, label: string }[] = [
+  { kind: 'line', label: 'Line' },
+  { kind: 'arrow', label: 'Arrow' },
+  { kind: 'rectangle', label: 'Rectangle' },
+  { kind: 'ellipse', label: 'Ellipse' },
+  { kind: 'polygon', label: 'Polygon' }
+];
+
+const ARROWHEADS: { style: ArrowheadStyle, label: string }[] = [
+  { style: 'open', label: '→' },
+  { style: 'filled', label: '➜' },
+  { style: 'double', label: '↔' }
+];
+
+const GEOMETRY_TOOLS: { kind: GeometryKind, label: string, hint: string }[] = [
+  { kind: 'point', label: 'Point', hint: 'Click to place a point' },
+  { kind: 'segment', label: 'Segment', hint: 'Pick two points' },
+  { kind: 'ray', label: 'Ray', hint: 'Pick the start, then a point on the ray' },
+  { kind: 'line', label: 'Line', hint: 'Pick two points' },
+  { kind: 'circle', label: 'Circle', hint: 'Pick the center, then a point on the circle' },
+  { kind: 'midpoint', label: 'Midpoint', hint: 'Pick two points' },
+  { kind: 'perpendicular', label: 'Perpendicular', hint: 'Pick a line, then a point' },
+  { kind: 'parallel', label: 'Parallel', hint: 'Pick a line, then a point' },
+  { kind: 'intersection', label: 'Intersect', hint: 'Pick two lines or circles' }
+];
+
+const normalizeRect = (a: { x: number, y: number }, b: { x: number, y: number }): Bounds => ({
+  minX: Math.min(a.x, b.x),
+  minY: Math.min(a.y, b.y),
+  maxX: Math.max(a.x, b.x),
+  maxY: Math.max(a.y, b.y)
+});
+
 const App: React.FC = () => {
   // -- State --
   const [mode, setMode] = useState<ToolMode>('select');
   const [color, setColor] = useState<string>(COLORS[0]);
   const [width, setWidth] = useState<number>(STROKE_WIDTHS[1]);
   const [strokeStyle, setStrokeStyle] = useState<StrokeStyle>('solid');
+  const [eraserMode, setEraserMode] = useState<EraserMode>('partial');
+  const [eraserSize, setEraserSize] = useState<number>(ERASER_RADIUS); // screen px radius
+  const [unitSettings, setUnitSettings] = useState<UnitSettings>(getUnitSettings);
+  const [showUnitsDialog, setShowUnitsDialog] = useState(false);
+  const [aiSettings, setAISettings] = useState(getAISettings);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [compassFullCircle, setCompassFullCircle] = useState(false); // Right-click draws a whole circle
+  const [eraserCursor, setEraserCursor] = useState<{ x: number, y: number } | null>(null); // world
+  const [geometryTool, setGeometryTool] = useState<GeometryKind>('segment');
+  const [geometryPicks, setGeometryPicks] = useState<string[]>([]); // Inputs picked so far for the current construction
+  const [shapeTool, setShapeTool] = useState<ShapeTool>('rectangle');
+  const [shapeFill, setShapeFill] = useState<string | undefined>(undefined); // No fill by default
+  const [shapeFillOpacity, setShapeFillOpacity] = useState<number>(SHAPE_DEFAULTS.fillOpacity);
+  const [arrowhead, setArrowhead] = useState<ArrowheadStyle>(SHAPE_DEFAULTS.arrowhead);
+  const [shapeDraft, setShapeDraft] = useState<ShapeItem | null>(null); // Shape being drawn (live preview)
   
-  const [items, setItems] = useState<CanvasItem[]>([]);
+  const [initialDoc] = useState(createBoardDocument);
+
+  // Pages: `items` is always the active page's item list
+  const [pages, setPages] = useState<BoardPage[]>(initialDoc.pages);
+  const [activePageId, setActivePageId] = useState<string>(initialDoc.pages[0].id);
+  const activePageIdRef = useRef(activePageId);
+  activePageIdRef.current = activePageId;
+  const activePage = pages.find(p => p.id === activePageId) || pages[0];
+  const items = activePage.items;
+
+  const setItems = useCallback((update: React.SetStateAction<CanvasItem[]>) => {
+    setPages(prev => prev.map(page => {
+      if (page.id !== activePageIdRef.current) return page;
+      // Dependent geometry follows whatever changed (or goes away with its parents)
+      return { ...page, items: solveGeometry(typeof update === 'function' ? update(page.items) : update) };
+    }));
+  }, []);
+
   const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
-  const [snap, setSnap] = useState<boolean>(true);
-  const [grid, setGrid] = useState<boolean>(true);
+  const [textEditor, setTextEditor] = useState<{ widget: Widget, isNew: boolean } | null>(null);
+  const [graphEditor, setGraphEditor] = useState<{ widget: Widget, isNew: boolean } | null>(null);
+  const [tikzEditor, setTikzEditor] = useState<Widget | null>(null);
+  const [assetTick, setAssetTick] = useState(0); // Bumped when async assets (formulas) finish loading
+  const history = useHistory(items, setItems, activePage.id);
+  const [snap, setSnap] = useState<boolean>(initialDoc.settings.snap);
+  const [smartInk, setSmartInk] = useState<boolean>(initialDoc.settings.smartInk);
+  const [inkRevert, setInkRevert] = useState<{ strokeId: string, ink: Stroke, kind: ShapeKind } | null>(null); // Last recognized shape and the ink it replaced
+  const [penOnly, setPenOnly] = useState<boolean>(false); // Palm rejection: fingers never ink
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  const [showMinimap, setShowMinimap] = useState(true);
+  const viewportRef = useRef(viewport); // Latest viewport for document-level listeners
+  viewportRef.current = viewport;
+
+  // Board Document State
+  const [boardMeta, setBoardMeta] = useState(() => {
+    const { id, title, createdAt } = initialDoc;
+    return { id, title, createdAt };
+  });
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'error'>('saved');
+  const [recentBoards, setRecentBoards] = useState<BoardSummary[]>([]);
+  const [showRecentBoards, setShowRecentBoards] = useState(false);
+  const boardLoaded = useRef(false);
+  const boardStored = useRef(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   // AI Panel State
   const [aiPanelOpen, setAiPanelOpen] = useState(true);
@@ -38,64 +157,208 @@ const App: React.FC = () => {
   // Modals & Panels
   const [tikzModalOpen, setTikzModalOpen] = useState(false);
   const [tikzDesc, setTikzDesc] = useState("");
+  const [tikzProgress, setTikzProgress] = useState<TikzRepairProgress | null>(null);
+  const [tikzFailure, setTikzFailure] = useState<{ message: string, log: string | null, code: string } | null>(null);
   const [tikzType, setTikzType] = useState<MathType>(MathType.BBT);
   
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    format: 'png',
+    area: 'board',
+    dpi: 150,
+    transparent: false,
+    includeTools: false,
+    allPages: false
+  });
+  const [exportRegion, setExportRegion] = useState<Bounds | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Region picking on the board: export region (rectangle), or a region to solve (rectangle or lasso)
+  const [regionPick, setRegionPick] = useState<'export' | 'solve' | null>(null);
+  const [regionShape, setRegionShape] = useState<'rect' | 'lasso'>('rect');
+  const [regionRect, setRegionRect] = useState<{ start: { x: number, y: number }, end: { x: number, y: number }, path?: { x: number, y: number }[] } | null>(null);
+
+  // Rubber-band selection in select mode
+  const [marqueeRect, setMarqueeRect] = useState<{ start: { x: number, y: number }, end: { x: number, y: number }, additive: boolean } | null>(null);
+
   const [showResultModal, setShowResultModal] = useState(false);
+  // 'streaming' while the answer arrives; 'stopped' keeps whatever came before Stop (or an error)
+  const [solveStatus, setSolveStatus] = useState<'streaming' | 'done' | 'stopped'>('done');
+  const solveController = useRef<AbortController | null>(null);
+  const [solveRun, setSolveRun] = useState(0); // resets the result view (reveal mode) for each new answer
+
+  // Selected ink being turned into a math text widget; the LaTeX is shown for correction first
+  const [handwriting, setHandwriting] = useState<{
+    pageId: string,
+    strokes: Stroke[],
+    image: string,
+    latex: string,
+    status: 'recognizing' | 'ready' | 'error',
+    error?: string
+  } | null>(null);
+  const handwritingController = useRef<AbortController | null>(null);
   const [showLayerPanel, setShowLayerPanel] = useState(false);
 
   // Canvas Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const sceneLayer = useRef(createSceneLayer());
   
   // Interaction Refs
   const isDragging = useRef(false);
-  const dragType = useRef<'move' | 'rotate' | 'compass_arc' | null>(null);
+  const dragType = useRef<'move' | 'rotate' | 'rotate_group' | 'compass_arc' | 'compass_radius' | 'protractor_arm' | 'shape_draw' | 'shape_vertex' | 'pan' | 'region' | 'marquee' | null>(null);
   const lastPos = useRef({ x: 0, y: 0 });
+  const lastScreenPos = useRef({ x: 0, y: 0 }); // For panning (screen px)
+  const spaceHeld = useRef(false);
+  const penDown = useRef(false);
+  const touchPointers = useRef(new Map<number, { x: number, y: number }>()); // Active fingers (screen px)
+  const dragPointer = useRef<number | null>(null); // Pointer that started the current drag; other contacts can't move or end it
+  const gesture = useRef<{
+    targetId: string | null;
+    startMid: { x: number, y: number };
+    startDist: number;
+    startAngle: number;
+    startViewport: Viewport;
+    startWidget: { x: number, y: number, angle: number } | null;
+  } | null>(null);
   const selectedItemId = useRef<string | null>(null);
   const compassPivot = useRef<{x: number, y: number} | null>(null); // For locking needle during rotation
+  const arcCompass = useRef<{ widget: Widget, sweep: number } | null>(null); // Compass while drawing an arc (moves can outpace renders)
+  const compassMove = useRef<{ start: { x: number, y: number }, widget: Widget } | null>(null); // Needle snapping while moving a compass
+  const groupCenter = useRef<{x: number, y: number} | null>(null); // Pivot while rotating a multi-selection
+  const strokeSnapped = useRef(false); // Current pen stroke has followed a snapping edge from the start
+  const eraserItems = useRef<CanvasItem[] | null>(null); // Latest items during an eraser drag (moves can outpace renders)
+  const shapeStart = useRef<{ x: number, y: number } | null>(null); // Where the shape being dragged out began
+  const shapeVertex = useRef<{ id: string, index: number } | null>(null); // Vertex handle being dragged
+  const dragIds = useRef<Set<string> | null>(null); // Items a move / group rotation carries (selection plus the free points it is built on)
 
   // -- Canvas Logic --
 
   const renderCanvas = useCallback(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
-
-    // Clear
+    if (!canvas || !ctx || canvas.width === 0 || canvas.height === 0) return;
+
+    // Committed board (cached offscreen, repainted only when it changes)
+    const layer = sceneLayer.current.render({
+      items,
+      background: activePage.background,
+      viewport,
+      width: canvas.width,
+      height: canvas.height,
+      hiddenId: textEditor?.widget.id ?? null, // The editor overlay shows it
+      assetVersion: assetTick,
+      units: unitSettings
+    });
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(layer, 0, 0);
 
-    // Grid
-    if (grid) {
-      ctx.strokeStyle = '#f1f5f9';
-      ctx.lineWidth = 1;
-      const step = 50;
-      for (let x = 0; x < canvas.width; x += step) {
-        ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, canvas.height); ctx.stroke();
-      }
-      for (let y = 0; y < canvas.height; y += step) {
-        ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(canvas.width, y); ctx.stroke();
-      }
-    }
-
-    // Items
-    items.forEach(item => {
-      // Check visibility
-      if ((item as Widget).visible === false) return;
-
-      if (item.type === 'stroke') drawStroke(ctx, item as Stroke);
-      else if (item.type === 'ruler') drawRuler(ctx, item as Widget);
-      else if (item.type === 'protractor') drawProtractor(ctx, item as Widget);
-      else if (item.type === 'triangle') drawSetSquare(ctx, item as Widget);
-      else if (item.type === 'compass') drawCompass(ctx, item as Widget);
-      else if (item.type === 'image') drawImageWidget(ctx, item as Widget);
-      else if (item.type === 'text') drawTextWidget(ctx, item as Widget);
-    });
+    // Live overlays below are drawn in world coordinates
+    ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.x, viewport.y);
 
     // Current Stroke
     if (currentStroke) {
       drawStroke(ctx, currentStroke);
     }
-  }, [items, currentStroke, grid]);
+
+    // Shape being drawn
+    if (shapeDraft) {
+      drawShape(ctx, shapeDraft);
+    }
+
+    // Live length while drawing along the ruler (or another snapping edge)
+    if (currentStroke && strokeSnapped.current && currentStroke.points.length > 1) {
+      const first = currentStroke.points[0];
+      const last = currentStroke.points[currentStroke.points.length - 1];
+      const label = formatLength(Math.hypot(last.x - first.x, last.y - first.y));
+      const size = 13 / viewport.zoom;
+      ctx.save();
+      ctx.font = `${size}px sans-serif`;
+      const labelX = last.x + size;
+      const labelY = last.y - size;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.fillRect(labelX - size * 0.3, labelY - size, ctx.measureText(label).width + size * 0.6, size * 1.4);
+      ctx.fillStyle = '#0f766e';
+      ctx.fillText(label, labelX, labelY);
+      ctx.restore();
+    }
+
+    // Eraser cursor
+    if (mode === 'eraser' && eraserCursor) {
+      ctx.save();
+      ctx.strokeStyle = eraserMode === 'object' ? '#ef4444' : '#475569';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.lineWidth = 1 / viewport.zoom;
+      ctx.beginPath();
+      ctx.arc(eraserCursor.x, eraserCursor.y, eraserSize / viewport.zoom, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    // Region being picked
+    if (regionRect) {
+      const b = normalizeRect(regionRect.start, regionRect.end);
+      ctx.save();
+      ctx.fillStyle = 'rgba(13, 148, 136, 0.08)';
+      ctx.strokeStyle = '#0d9488';
+      ctx.lineWidth = 1.5 / viewport.zoom;
+      ctx.setLineDash([6 / viewport.zoom, 4 / viewport.zoom]);
+      if (regionRect.path) {
+        ctx.beginPath();
+        regionRect.path.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+      } else {
+        ctx.fillRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+        ctx.strokeRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+      }
+      ctx.restore();
+    }
+
+    // Multi-selection outline
+    const selection = getSelection(items);
+    const groupBounds = selection.length > 1 ? getContentBounds(selection) : null;
+    if (groupBounds) {
+      const pad = 6 / viewport.zoom;
+      ctx.save();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1 / viewport.zoom;
+      ctx.setLineDash([4 / viewport.zoom, 4 / viewport.zoom]);
+      ctx.strokeRect(groupBounds.minX - pad, groupBounds.minY - pad, groupBounds.maxX - groupBounds.minX + pad * 2, groupBounds.maxY - groupBounds.minY + pad * 2);
+      ctx.restore();
+    }
+
+    // Marquee being dragged
+    if (marqueeRect) {
+      const b = normalizeRect(marqueeRect.start, marqueeRect.end);
+      ctx.save();
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1 / viewport.zoom;
+      ctx.fillRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+      ctx.strokeRect(b.minX, b.minY, b.maxX - b.minX, b.maxY - b.minY);
+      ctx.restore();
+    }
+  }, [items, currentStroke, shapeDraft, activePage.background, viewport, regionRect, marqueeRect, textEditor, assetTick, unitSettings, mode, eraserCursor, eraserMode, eraserSize]);
+
+  // Redraw (and re-index, since sizes change) when MathJax, a typeset formula or an image becomes available
+  const onAssetReady = useCallback(() => {
+    invalidateSpatialIndex();
+    setAssetTick(t => t + 1);
+  }, []);
+  useEffect(() => subscribeMathReady(onAssetReady), [onAssetReady]);
+  useEffect(() => subscribeImageReady(onAssetReady), [onAssetReady]);
+
+  // Console helper for measuring dense boards; dev server only, so production builds leave it out
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    import('./components/RenderBenchmark').then(({ runRenderBenchmark }) => {
+      window.runBoardBenchmark = runRenderBenchmark;
+    });
+  }, []);
 
   useEffect(() => {
     renderCanvas();
@@ -107,6 +370,7 @@ const App: React.FC = () => {
       if (containerRef.current && canvasRef.current) {
         canvasRef.current.width = containerRef.current.clientWidth;
         canvasRef.current.height = containerRef.current.clientHeight;
+        setCanvasSize({ width: canvasRef.current.width, height: canvasRef.current.height });
         renderCanvas();
       }
     };
@@ -117,7 +381,8 @@ const App: React.FC = () => {
 
   // -- Input Handlers --
 
-  const getMousePos = (e: React.MouseEvent | MouseEvent) => {
+  // Canvas-relative screen pixels
+  const getScreenPos = (e: React.MouseEvent | MouseEvent) => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
     return {
@@ -126,31 +391,233 @@ const App: React.FC = () => {
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // World coordinates (what items, snapping and hit testing use)
+  const getMousePos = (e: React.MouseEvent | MouseEvent) => {
+    const screen = getScreenPos(e);
+    return screenToWorld(screen.x, screen.y, viewport);
+  };
+
+  // World point at the middle of the visible area (for placing new widgets)
+  const getViewCenter = () => {
+    const canvas = canvasRef.current;
+    return screenToWorld(canvas ? canvas.width / 2 : 400, canvas ? canvas.height / 2 : 300, viewportRef.current);
+  };
+
+  // Hit Test (hidden items never hit); strokes are only pickable with the select tool
+  const hitTest = (x: number, y: number, includeStrokes = false) =>
+    findItemAt(items, x, y, { includeStrokes, tolerance: 4 / viewport.zoom });
+
+  const findTextWidgetAt = (x: number, y: number) => {
+    return [...items].reverse().find(item =>
+        item.type === 'text' && (item as Widget).visible !== false && isPointInWidgetBox(item as Widget, x, y, 4)
+    ) as Widget | undefined;
+  };
+
+  // Protractor whose measuring-arm handle is under the point
+  const findProtractorArmAt = (x: number, y: number) => {
+    return [...items].reverse().find(item => {
+        if (item.type !== 'protractor' || (item as Widget).visible === false) return false;
+        const tip = getProtractorArm(item as Widget).world;
+        return Math.hypot(tip.x - x, tip.y - y) <= 6 + 6 / viewport.zoom;
+    }) as Widget | undefined;
+  };
+
+  // Compass whose pencil tip (the opening handle) is under the point
+  const findCompassPencilAt = (x: number, y: number) => {
+    return [...items].reverse().find(item => {
+        if (item.type !== 'compass' || (item as Widget).visible === false) return false;
+        const { pencil } = getCompassPoints(item as Widget);
+        return Math.hypot(pencil.x - x, pencil.y - y) <= 6 + 6 / viewport.zoom;
+    }) as Widget | undefined;
+  };
+
+  // Stylus pressure is only meaningful for pens (mice report a constant 0.5)
+  const getPressure = (e: React.PointerEvent) => (e.pointerType === 'pen' ? e.pressure : undefined);
+
+  // -- Touch Gestures --
+
+  const getTouchPair = () => {
+    const [a, b] = [...touchPointers.current.values()];
+    return {
+      mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      dist: Math.max(Math.hypot(b.x - a.x, b.y - a.y), 1),
+      angle: Math.atan2(b.y - a.y, b.x - a.x) * 180 / Math.PI
+    };
+  };
+
+  // Two fingers: rotate + move the widget between them, otherwise pinch-zoom the board
+  const startGesture = () => {
+    // Drop whatever the first finger started
+    dragPointer.current = null;
+    setCurrentStroke(null);
+    isDragging.current = false;
+    dragType.current = null;
+    compassPivot.current = null;
+
+    const { mid, dist, angle } = getTouchPair();
+    const worldMid = screenToWorld(mid.x, mid.y, viewport);
+    const selected = items.find(i => i.id === selectedItemId.current && i.type !== 'stroke' && i.type !== 'geometry' && i.type !== 'shape');
+    const target = (hitTest(worldMid.x, worldMid.y) || selected) as Widget | undefined;
+
+    if (target) {
+        selectedItemId.current = target.id;
+        history.capture();
+        setItems(prev => prev.map(i => ({ ...i, selected: i.id === target.id })));
+    }
+    gesture.current = {
+        targetId: target?.id ?? null,
+        startMid: mid,
+        startDist: dist,
+        startAngle: angle,
+        startViewport: viewport,
+        startWidget: target ? { x: target.x, y: target.y, angle: target.angle } : null
+    };
+  };
+
+  const updateGesture = () => {
+    const g = gesture.current;
+    if (!g) return;
+    const { mid, dist, angle } = getTouchPair();
+
+    if (g.targetId && g.startWidget) {
+        const start = g.startWidget;
+        const dx = (mid.x - g.startMid.x) / viewport.zoom;
+        const dy = (mid.y - g.startMid.y) / viewport.zoom;
+        history.commit();
+        setItems(prev => prev.map(item => item.id === g.targetId
+            ? { ...item, x: start.x + dx, y: start.y + dy, angle: start.angle + (angle - g.startAngle) }
+            : item));
+    } else {
+        const vp = g.startViewport;
+        const anchor = screenToWorld(g.startMid.x, g.startMid.y, vp);
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, vp.zoom * dist / g.startDist));
+        setViewport({ zoom, x: mid.x - anchor.x * zoom, y: mid.y - anchor.y * zoom });
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.target as Element).setPointerCapture(e.pointerId);
+
+    if (e.pointerType === 'touch') {
+        // Palm rejection: a hand resting on the screen while the pen is down is ignored
+        if (penOnly && penDown.current) return;
+
+        touchPointers.current.set(e.pointerId, getScreenPos(e));
+        if (touchPointers.current.size === 2) {
+            startGesture();
+            return;
+        }
+        if (touchPointers.current.size > 2 || gesture.current) return;
+
+        // With pen-only drawing a single finger never inks or erases
+        if (penOnly && (mode === 'pen' || mode === 'eraser')) return;
+    } else if (e.pointerType === 'pen') {
+        penDown.current = true;
+    }
+    dragPointer.current = e.pointerId;
+
     let { x, y } = getMousePos(e);
     const isRightClick = e.button === 2;
+    lastScreenPos.current = getScreenPos(e);
 
-    // 1. Hit Test (Ignore hidden items)
-    const clickedItem = [...items].reverse().find(item => {
-        if ((item as Widget).visible === false) return false; // Skip hidden
-        if (item.type === 'stroke') return false; 
-        const w = (item as Widget);
-        const dx = x - w.x;
-        const dy = y - w.y;
-        return Math.hypot(dx, dy) < 100; 
-    });
+    // 0. Pan (Middle mouse or Space + Left drag)
+    if (e.button === 1 || (e.button === 0 && spaceHeld.current)) {
+        e.preventDefault();
+        dragType.current = 'pan';
+        isDragging.current = true;
+        return;
+    }
+
+    // 0b. Region picking overrides the active tool
+    if (regionPick && e.button === 0) {
+        dragType.current = 'region';
+        isDragging.current = true;
+        const lasso = regionPick === 'solve' && regionShape === 'lasso';
+        setRegionRect({ start: { x, y }, end: { x, y }, path: lasso ? [{ x, y }] : undefined });
+        return;
+    }
+
+    // 0c. Text tool: click places (or re-opens) a text box
+    if (textEditor) commitTextEditor();
+    if (mode === 'text' && e.button === 0) {
+        const existing = findTextWidgetAt(x, y);
+        if (existing) openTextEditor(existing);
+        else openTextEditor(null, { x, y });
+        return;
+    }
+
+    // 0d. Geometry tool: clicks pick or place the inputs of the current construction
+    if (mode === 'geometry' && e.button === 0) {
+        handleGeometryClick(x, y);
+        return;
+    }
+
+    // 0e. Shape tools: drag out a shape, or click polygon vertices (handles of the selected shape still edit it)
+    const vertexShape = !isRightClick && (mode === 'select' || mode === 'shape') && !shapeDraft ? findShapeVertexAt(x, y) : undefined;
+    if (vertexShape) {
+        shapeVertex.current = vertexShape;
+        history.capture();
+        dragType.current = 'shape_vertex';
+        isDragging.current = true;
+        return;
+    }
+    if (mode === 'shape' && e.button === 0) {
+        handleShapePointerDown(getShapePoint(x, y));
+        return;
+    }
+
+    // 0f. Protractor arm handle (select and pen tools, so angles can be set up mid-drawing)
+    const armProtractor = !isRightClick && (mode === 'select' || mode === 'pen') ? findProtractorArmAt(x, y) : undefined;
+    if (armProtractor) {
+        selectedItemId.current = armProtractor.id;
+        history.capture();
+        setItems(prev => prev.map(i => ({ ...i, selected: i.id === armProtractor.id })));
+        dragType.current = 'protractor_arm';
+        isDragging.current = true;
+        return;
+    }
+
+    // 0g. Dragging the compass pencil opens / closes it around the needle
+    const openedCompass = !isRightClick && (mode === 'select' || mode === 'pen') ? findCompassPencilAt(x, y) : undefined;
+    if (openedCompass) {
+        selectedItemId.current = openedCompass.id;
+        compassPivot.current = getCompassPoints(openedCompass).needle;
+        history.capture();
+        setItems(prev => prev.map(i => ({ ...i, selected: i.id === openedCompass.id })));
+        dragType.current = 'compass_radius';
+        isDragging.current = true;
+        return;
+    }
+
+    // 1. Hit Test
+    const clickedItem = hitTest(x, y, mode === 'select');
 
     if (clickedItem) {
-        selectedItemId.current = clickedItem.id;
-        setItems(prev => prev.map(i => ({ ...i, selected: i.id === clickedItem.id })));
+        // Shift-click toggles an item in/out of the selection; clicking inside the selection keeps it
+        const toggle = mode === 'select' && !isRightClick && e.shiftKey;
+        const keepOthers = toggle || clickedItem.selected;
+        const nowSelected = toggle ? !clickedItem.selected : true;
+        const selectedIds = new Set<string>(items.filter(i => keepOthers && i.selected && i.id !== clickedItem.id).map(i => i.id));
+        if (nowSelected) selectedIds.add(clickedItem.id);
+
+        selectedItemId.current = nowSelected ? clickedItem.id : null;
+        history.capture(); // Move / rotate / arc become one undo step
+        setItems(prev => prev.map(i => ({ ...i, selected: selectedIds.has(i.id) })));
         
-        if (isRightClick) {
+        if (!nowSelected) {
+            dragType.current = null;
+        } else if (isRightClick) {
             // Right Click Logic
-            if (clickedItem.type === 'compass') {
+            if (clickedItem.type === 'compass' && selectedIds.size === 1 && compassFullCircle) {
+                // One gesture: the whole circle at once
+                drawCompassCircle(clickedItem as Widget);
+                dragType.current = null;
+            } else if (clickedItem.type === 'compass' && selectedIds.size === 1) {
                 // Start Drawing Arc
                 dragType.current = 'compass_arc';
                 const points = getCompassPoints(clickedItem as Widget);
                 compassPivot.current = points.needle; // Lock rotation around needle
+                arcCompass.current = { widget: clickedItem as Widget, sweep: 0 };
 
                 // Start the stroke at the pencil tip
                 setCurrentStroke({
@@ -161,39 +628,56 @@ const App: React.FC = () => {
                     width: width,
                     strokeStyle: strokeStyle
                 });
+            } else if (selectedIds.size > 1 || clickedItem.type === 'stroke' || clickedItem.type === 'geometry' || clickedItem.type === 'shape') {
+                // Groups, strokes, shapes and constructions turn around their common center
+                dragType.current = 'rotate_group';
+                groupCenter.current = getSelectionCenter(items.filter(i => selectedIds.has(i.id)));
+                dragIds.current = getDragIds(selectedIds);
             } else {
                 // Start Rotation for other tools
                 dragType.current = 'rotate';
             }
         } else {
-            // Left Click Logic (Move)
+            // Left Click Logic (Move the whole selection)
             if (mode === 'select') {
                 dragType.current = 'move';
+                dragIds.current = getDragIds(selectedIds);
+                if (clickedItem.type === 'compass' && selectedIds.size === 1) {
+                    compassMove.current = { start: { x, y }, widget: clickedItem as Widget };
+                }
             }
         }
     } else {
         // No item clicked
         if (mode === 'select') {
-            selectedItemId.current = null;
-            setItems(prev => prev.map(i => ({ ...i, selected: false })));
+            if (!e.shiftKey) {
+                selectedItemId.current = null;
+                setItems(prev => prev.map(i => ({ ...i, selected: false })));
+            }
             dragType.current = null;
+            if (!isRightClick) {
+                dragType.current = 'marquee';
+                setMarqueeRect({ start: { x, y }, end: { x, y }, additive: e.shiftKey });
+            }
         }
     }
 
     // Pen Mode Logic (Left Click only)
     if (!isRightClick && mode === 'pen') {
         // Snap Logic
+        strokeSnapped.current = false;
         if (snap) {
-            const snapPos = getSnapPoint(x, y, items);
+            const snapPos = getSnapPoint(x, y, items, 20 / viewport.zoom);
             if (snapPos) {
                 x = snapPos.x;
                 y = snapPos.y;
+                strokeSnapped.current = true;
             }
         }
         setCurrentStroke({
             id: uuidv4(),
             type: 'stroke',
-            points: [{ x, y }],
+            points: [{ x, y, pressure: getPressure(e) }],
             color,
             width,
             strokeStyle
@@ -204,85 +688,108 @@ const App: React.FC = () => {
     // Eraser
     if (mode === 'eraser') {
         dragType.current = null;
+        history.capture();
+        eraserItems.current = items;
+        eraseAlong({ x, y }, { x, y });
     }
 
     lastPos.current = { x, y };
     isDragging.current = true;
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch') {
+        if (!touchPointers.current.has(e.pointerId)) return; // Rejected palm contact
+        touchPointers.current.set(e.pointerId, getScreenPos(e));
+        if (gesture.current) {
+            if (touchPointers.current.size === 2) updateGesture();
+            return;
+        }
+    }
+    if (dragPointer.current !== null && e.pointerId !== dragPointer.current) return;
+
+    if (mode === 'eraser') setEraserCursor(getMousePos(e));
+    if (shapeDraft?.kind === 'polygon') {
+        // The next polygon edge follows the pointer between clicks
+        const pos = getMousePos(e);
+        const next = getShapePoint(pos.x, pos.y);
+        setShapeDraft(prev => prev && dragShape(prev, prev.points[0], next, e.shiftKey));
+    }
     if (!isDragging.current) return;
     let { x, y } = getMousePos(e);
 
-    // --- 1. Right Click Actions (Rotate or Compass Draw) ---
-    if (dragType.current === 'compass_arc' && selectedItemId.current && compassPivot.current) {
-        // Rotate compass around needle tip based on mouse position
-        const pivot = compassPivot.current;
-        
-        // Angle from Pivot (Needle) to Mouse
-        const dx = x - pivot.x;
-        const dy = y - pivot.y;
-        const mouseAngle = Math.atan2(dy, dx) * 180 / Math.PI;
-
-        // Calculate Angle Change
-        const oldDx = lastPos.current.x - pivot.x;
-        const oldDy = lastPos.current.y - pivot.y;
-        const oldAngle = Math.atan2(oldDy, oldDx) * 180 / Math.PI;
-        const deltaAngle = mouseAngle - oldAngle;
-
-        setItems(prev => prev.map(item => {
-            if (item.id === selectedItemId.current) {
-                const w = item as Widget;
-                const newAngle = w.angle + deltaAngle;
-                
-                const spread = 40;
-                const height = w.height || 150;
-                const rad = (newAngle * Math.PI) / 180;
-                
-                const cos = Math.cos(rad);
-                const sin = Math.sin(rad);
-                
-                const vX = -spread * cos - height * sin;
-                const vY = -spread * sin + height * cos;
-                
-                const newCx = pivot.x - vX;
-                const newCy = pivot.y - vY;
-
-                return { ...item, angle: newAngle, x: newCx, y: newCy };
-            }
-            return item;
-        }));
-        
-        // Re-calc new angle/center locally to draw stroke
-        const currentItem = items.find(i => i.id === selectedItemId.current) as Widget;
-        if (currentItem) {
-             const newAngle = currentItem.angle + deltaAngle;
-             const spread = 40;
-             const height = currentItem.height || 150;
-             const rad = (newAngle * Math.PI) / 180;
-             
-             const cos = Math.cos(rad);
-             const sin = Math.sin(rad);
+    if (dragType.current === 'region') {
+        // A lasso's bounding box is kept in start/end as it grows
+        setRegionRect(prev => {
+          if (!prev) return null;
+          if (!prev.path) return { ...prev, end: { x, y } };
+          return {
+            start: { x: Math.min(prev.start.x, x), y: Math.min(prev.start.y, y) },
+            end: { x: Math.max(prev.end.x, x), y: Math.max(prev.end.y, y) },
+            path: [...prev.path, { x, y }]
+          };
+        });
+        return;
+    }
 
-             // Recalculate center (though we just set it above, state updates are async, so safest to use math)
-             const vX = -spread * cos - height * sin;
-             const vY = -spread * sin + height * cos;
-             const newCx = pivot.x - vX;
-             const newCy = pivot.y - vY;
+    if (dragType.current === 'marquee') {
+        setMarqueeRect(prev => prev ? { ...prev, end: { x, y } } : null);
+        return;
+    }
 
-             // Pencil Local: (spread, height)
-             const pX = spread * cos - height * sin + newCx;
-             const pY = spread * sin + height * cos + newCy;
+    if (dragType.current === 'pan') {
+        const screen = getScreenPos(e);
+        const dx = screen.x - lastScreenPos.current.x;
+        const dy = screen.y - lastScreenPos.current.y;
+        lastScreenPos.current = screen;
+        setViewport(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+        return;
+    }
 
-             setCurrentStroke(prev => prev ? { ...prev, points: [...prev.points, { x: pX, y: pY }] } : null);
+    // --- 1. Right Click Actions (Rotate or Compass Draw) ---
+    if (dragType.current === 'compass_arc' && arcCompass.current && compassPivot.current) {
+        // Rotate compass around needle tip based on mouse position
+        const pivot = compassPivot.current;
+        const mouseAngle = Math.atan2(y - pivot.y, x - pivot.x) * 180 / Math.PI;
+        const oldAngle = Math.atan2(lastPos.current.y - pivot.y, lastPos.current.x - pivot.x) * 180 / Math.PI;
+
+        // Unwrap, so crossing ±180° is a small step rather than a jump of a whole turn
+        let deltaAngle = mouseAngle - oldAngle;
+        if (deltaAngle > 180) deltaAngle -= 360;
+        if (deltaAngle < -180) deltaAngle += 360;
+
+        // Stop after one full turn in either direction
+        const { widget, sweep } = arcCompass.current;
+        const nextSweep = Math.max(-360, Math.min(360, sweep + deltaAngle));
+        deltaAngle = nextSweep - sweep;
+
+        if (deltaAngle !== 0) {
+            const arc = getCompassArc(widget, deltaAngle).slice(1);
+            const turned = placeCompass(widget, pivot, widget.angle + deltaAngle, getCompassGeometry(widget).radius);
+            arcCompass.current = { widget: turned, sweep: nextSweep };
+
+            history.commit();
+            setItems(prev => prev.map(item => item.id === turned.id ? { ...item, x: turned.x, y: turned.y, angle: turned.angle } : item));
+            setCurrentStroke(prev => prev ? { ...prev, points: [...prev.points, ...arc] } : null);
         }
 
+    } else if (dragType.current === 'compass_radius' && selectedItemId.current && compassPivot.current) {
+        // Pencil follows the pointer, needle stays put
+        const pivot = compassPivot.current;
+        const angle = Math.atan2(y - pivot.y, x - pivot.x) * 180 / Math.PI;
+        const radius = Math.hypot(x - pivot.x, y - pivot.y);
+        history.commit();
+        setItems(prev => prev.map(item => item.id === selectedItemId.current
+            ? placeCompass(item as Widget, pivot, angle, radius)
+            : item));
+
     } else if (dragType.current === 'rotate' && selectedItemId.current) {
         // Generic Rotation via Right Drag
         // Use vertical movement to rotate
         const deltaY = y - lastPos.current.y;
         const rotationSpeed = 0.5;
         
+        history.commit();
         setItems(prev => prev.map(item => {
             if (item.id === selectedItemId.current) {
                 const w = item as Widget;
@@ -290,149 +797,965 @@ const App: React.FC = () => {
             }
             return item;
         }));
+    } else if (dragType.current === 'protractor_arm' && selectedItemId.current) {
+        history.commit();
+        setItems(prev => prev.map(item => item.id === selectedItemId.current
+            ? { ...item, measureAngle: getProtractorAngleAt(item as Widget, x, y) }
+            : item));
+    } else if (dragType.current === 'shape_draw' && shapeStart.current) {
+        const start = shapeStart.current;
+        const end = e.shiftKey ? { x, y } : getShapePoint(x, y);
+        setShapeDraft(prev => prev && dragShape(prev, start, end, e.shiftKey));
+    } else if (dragType.current === 'shape_vertex' && shapeVertex.current) {
+        const { id, index } = shapeVertex.current;
+        const p = e.shiftKey ? { x, y } : getShapePoint(x, y);
+        history.commit();
+        setItems(prev => prev.map(item => item.id === id && isShape(item) ? moveShapeVertex(item, index, p, e.shiftKey) : item));
+    } else if (dragType.current === 'rotate_group' && groupCenter.current) {
+        const center = groupCenter.current;
+        const deltaY = y - lastPos.current.y;
+        history.commit();
+        const ids = dragIds.current;
+        setItems(prev => prev.map(item => ids?.has(item.id) ? rotateItemAround(item, center, deltaY * 0.5) : item));
     }
 
     // --- 2. Left Click Actions ---
     else if (mode === 'pen' && currentStroke) {
       // Snap Logic
-      if (snap) {
-          const snapPos = getSnapPoint(x, y, items);
-          if (snapPos) {
-              x = snapPos.x;
-              y = snapPos.y;
-          }
+      const snapPos = snap ? getSnapPoint(x, y, items, 20 / viewport.zoom) : null;
+      if (snapPos) {
+          x = snapPos.x;
+          y = snapPos.y;
+      } else {
+          strokeSnapped.current = false;
       }
-      setCurrentStroke(prev => prev ? { ...prev, points: [...prev.points, { x, y }] } : null);
+      const pressure = getPressure(e);
+      setCurrentStroke(prev => prev ? { ...prev, points: [...prev.points, { x, y, pressure }] } : null);
     } 
+    else if (dragType.current === 'move' && compassMove.current) {
+      // Single compass: follow the pointer from where the drag began, then pull the needle onto nearby points
+      const { start, widget } = compassMove.current;
+      let moved = translateItem(widget, x - start.x, y - start.y);
+      if (snap) {
+          const { needle } = getCompassPoints(moved);
+          const target = findSnapTarget(items, needle, NEEDLE_SNAP_DISTANCE / viewport.zoom);
+          if (target) moved = translateItem(moved, target.x - needle.x, target.y - needle.y);
+      }
+      history.commit();
+      setItems(prev => prev.map(item => item.id === moved.id ? { ...item, x: moved.x, y: moved.y } : item));
+    }
     else if (dragType.current === 'move' && selectedItemId.current) {
       const dx = x - lastPos.current.x;
       const dy = y - lastPos.current.y;
+      const ids = dragIds.current;
+      history.commit();
+      setItems(prev => prev.map(item => ids?.has(item.id) ? translateItem(item, dx, dy) : item));
+    } 
+    else if (mode === 'eraser') {
+        eraseAlong(lastPos.current, { x, y });
+    }
+
+    lastPos.current = { x, y };
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (e.pointerType === 'pen') penDown.current = false;
+    if (e.pointerType === 'touch') {
+        if (!touchPointers.current.has(e.pointerId)) return; // Rejected palm contact
+        touchPointers.current.delete(e.pointerId);
+        if (gesture.current) {
+            // Stay in gesture mode until every finger is lifted, so the last one doesn't ink
+            if (touchPointers.current.size === 0) gesture.current = null;
+            return;
+        }
+    }
+    // An ignored finger (or a second pointer) lifting must not end the pen's stroke
+    if (dragPointer.current !== null && e.pointerId !== dragPointer.current) return;
+    dragPointer.current = null;
+
+    isDragging.current = false;
+
+    // Finalize Region
+    if (dragType.current === 'region') {
+        dragType.current = null;
+        finishRegionPick();
+        return;
+    }
+
+    // Finalize Marquee
+    if (dragType.current === 'marquee' && marqueeRect) {
+        const picked = new Set(findItemsInRect(items, normalizeRect(marqueeRect.start, marqueeRect.end)).map(i => i.id));
+        const additive = marqueeRect.additive;
+        setItems(prev => prev.map(i => ({ ...i, selected: picked.has(i.id) || (additive && !!i.selected) })));
+        if (picked.size > 0) selectedItemId.current = [...picked][picked.size - 1];
+        setMarqueeRect(null);
+        dragType.current = null;
+        return;
+    }
+    
+    // Finalize Shape (anything smaller than a few screen px was just a click)
+    if (dragType.current === 'shape_draw' && shapeDraft) {
+        const xs = shapeDraft.points.map(p => p.x);
+        const ys = shapeDraft.points.map(p => p.y);
+        const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+        if (span * viewport.zoom > 4) commitShape(shapeDraft);
+        setShapeDraft(null);
+    }
+
+    // Finalize Compass Stroke
+    if (dragType.current === 'compass_arc' && currentStroke) {
+        history.commit();
+        setItems(prev => [...prev, currentStroke]);
+        setCurrentStroke(null);
+    }
+    // Finalize Pen Stroke
+    else if (mode === 'pen' && currentStroke) {
+      const label = strokeSnapped.current && unitSettings.dimensionLabels ? createDimensionLabel(currentStroke) : null;
+      // Smart ink cleans up freehand shapes; ink that followed a ruler is already straight
+      const shape = smartInk && !strokeSnapped.current ? recognizeShape(currentStroke) : null;
+      const stroke = shape ? applyRecognizedShape(currentStroke, shape) : currentStroke;
+      setInkRevert(shape ? { strokeId: stroke.id, ink: currentStroke, kind: shape.kind } : null);
+      history.record();
+      setItems(prev => label ? [...prev, stroke, label] : [...prev, stroke]);
+      setCurrentStroke(null);
+    }
+    strokeSnapped.current = false;
+
+    dragType.current = null;
+    compassPivot.current = null;
+    arcCompass.current = null;
+    compassMove.current = null;
+    groupCenter.current = null;
+    eraserItems.current = null;
+    dragIds.current = null;
+    shapeStart.current = null;
+    shapeVertex.current = null;
+  };
+
+  // Selected items plus the free points under any selected construction (moving a line moves its points)
+  const getDragIds = (selectedIds: Set<string>) => {
+    const ids = new Set(selectedIds);
+    const constructed = items.filter(i => selectedIds.has(i.id) && isGeometry(i)).map(i => i.id);
+    getFreeAncestors(items, constructed).forEach(id => ids.add(id));
+    return ids;
+  };
+
+  // -- Shapes --
+
+  // Shape vertices snap like pen strokes
+  const getShapePoint = (x: number, y: number) => (snap && getSnapPoint(x, y, items, 20 / viewport.zoom)) || { x, y };
+
+  // Vertex handle of a selected shape under the point
+  const findShapeVertexAt = (x: number, y: number) => {
+    for (const item of [...items].reverse()) {
+      if (!isShape(item) || !item.selected || item.visible === false) continue;
+      const index = findShapeVertex(item, { x, y }, SHAPE_HANDLE_SIZE / 2 + 4 / viewport.zoom);
+      if (index >= 0) return { id: item.id, index };
+    }
+    return undefined;
+  };
+
+  const handleShapePointerDown = (p: { x: number, y: number }) => {
+    if (shapeTool !== 'polygon') {
+        setShapeDraft(createShape(shapeTool, p, { color, width, strokeStyle, fill: shapeFill, fillOpacity: shapeFillOpacity, arrowhead: shapeTool === 'arrow' ? arrowhead : undefined }));
+        shapeStart.current = p;
+        dragType.current = 'shape_draw';
+        isDragging.current = true;
+        return;
+    }
+    if (!shapeDraft) {
+        setShapeDraft(createShape('polygon', p, { color, width, strokeStyle, fill: shapeFill, fillOpacity: shapeFillOpacity }));
+        return;
+    }
+    // Clicking the first vertex closes the polygon
+    const first = shapeDraft.points[0];
+    if (shapeDraft.points.length > 3 && Math.hypot(p.x - first.x, p.y - first.y) <= SHAPE_CLOSE_DISTANCE / viewport.zoom) {
+        finishPolygon();
+        return;
+    }
+    const fixed = shapeDraft.points.slice(0, -1);
+    setShapeDraft({ ...shapeDraft, points: [...fixed, { ...p }, { ...p }] });
+  };
+
+  // Drops the floating vertex (and the duplicate a double-click leaves); two vertices make a line
+  const finishPolygon = () => {
+    if (!shapeDraft) return;
+    const vertices = shapeDraft.points.slice(0, -1).filter((p, i, all) =>
+        i === 0 || Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y) * viewport.zoom > 2);
+    if (vertices.length >= 3) commitShape({ ...shapeDraft, points: vertices });
+    else if (vertices.length === 2) commitShape({ ...shapeDraft, kind: 'line', points: vertices, fill: undefined });
+    setShapeDraft(null);
+  };
+
+  // The new shape comes out selected, so its vertices can be adjusted straight away
+  const commitShape = (shape: ShapeItem) => {
+    history.record();
+    setItems(prev => [...prev.map(i => ({ ...i, selected: false })), { ...shape, selected: true }]);
+  };
+
+  // Style controls apply to new shapes and to the selected ones
+  const updateShapeStyle = (patch: Partial<ShapeItem>, mergeKey?: string) => {
+    if (!items.some(i => isShape(i) && i.selected)) return;
+    history.record(mergeKey);
+    setItems(prev => prev.map(item => isShape(item) && item.selected
+        ? { ...item, ...patch, arrowhead: item.kind === 'arrow' ? patch.arrowhead ?? item.arrowhead : undefined }
+        : item));
+  };
+
+  // A half-drawn shape doesn't survive switching tools
+  useEffect(() => {
+    setShapeDraft(null);
+  }, [mode, shapeTool]);
+
+  // -- Geometry Constructions --
+
+  const handleGeometryClick = (x: number, y: number) => {
+    const inputs = GEOMETRY_TOOL_INPUTS[geometryTool];
+    const input = inputs[geometryPicks.length];
+    const tolerance = GEOMETRY_HIT_DISTANCE / viewport.zoom;
+    const added: GeometryObject[] = [];
+
+    // Points win over the lines they sit on
+    const candidates = [...items].reverse().filter(item => acceptsInput(item, input) && hitTestItem(item, x, y, tolerance));
+    let picked = candidates.find(item => acceptsInput(item, 'point')) || candidates[0];
+    if (!picked && input === 'point') {
+        const pos = (snap && getSnapPoint(x, y, items, 20 / viewport.zoom)) || { x, y };
+        picked = createGeometryPoint(pos, nextPointLabel(items), color);
+        added.push(picked as GeometryObject);
+    }
+    if (!picked || geometryPicks.includes(picked.id)) return;
+
+    const picks = [...geometryPicks, picked.id];
+    if (picks.length === inputs.length) {
+        added.push(...buildConstruction(geometryTool, picks, [...items, ...added]));
+        setGeometryPicks([]);
+    } else {
+        setGeometryPicks(picks);
+    }
+    if (added.length > 0) history.record();
+    const highlighted = new Set(picks.length === inputs.length ? [] : picks);
+    setItems(prev => [...prev, ...added].map(i => ({ ...i, selected: highlighted.has(i.id) })));
+  };
+
+  const buildConstruction = (kind: GeometryKind, picks: string[], existing: CanvasItem[]): GeometryObject[] => {
+    switch (kind) {
+      case 'point':
+        return []; // The picked point is the result
+      case 'midpoint':
+        return [createGeometryObject('midpoint', picks, color, { label: nextPointLabel(existing) })];
+      case 'intersection': {
+        // Anything involving a circle can cross twice
+        const [a, b] = picks.map(id => existing.find(i => i.id === id) as GeometryObject);
+        const count = a.kind === 'circle' || b.kind === 'circle' ? 2 : 1;
+        const result: GeometryObject[] = [];
+        for (let index = 0; index < count; index++) {
+          const label = nextPointLabel([...existing, ...result]);
+          result.push(createGeometryObject('intersection', picks, color, { index, label }));
+        }
+        return result;
+      }
+      default:
+        return [createGeometryObject(kind, picks, color)];
+    }
+  };
+
+  // A half-finished construction doesn't survive switching tools
+  useEffect(() => {
+    setGeometryPicks([]);
+  }, [mode, geometryTool]);
+
+  // Put the original freehand ink back in place of the recognized shape
+  const revertToInk = () => {
+    if (!inkRevert) return;
+    const { strokeId, ink } = inkRevert;
+    history.record();
+    setItems(prev => prev.map(item => item.id === strokeId ? ink : item));
+    setInkRevert(null);
+  };
+
+  // The revert offer only stays up briefly
+  useEffect(() => {
+    if (!inkRevert) return;
+    const timer = setTimeout(() => setInkRevert(null), SMART_INK.revertTimeout);
+    return () => clearTimeout(timer);
+  }, [inkRevert]);
+
+  // Length label centred above a straight segment, kept upright
+  const createDimensionLabel = (stroke: Stroke): Widget | null => {
+    const first = stroke.points[0];
+    const last = stroke.points[stroke.points.length - 1];
+    const length = Math.hypot(last.x - first.x, last.y - first.y);
+    if (length < MIN_DIMENSION_LENGTH) return null;
+
+    let angle = Math.atan2(last.y - first.y, last.x - first.x) * 180 / Math.PI;
+    if (angle > 90) angle -= 180;
+    if (angle <= -90) angle += 180;
+    const rad = angle * Math.PI / 180;
+    const label: Widget = {
+      id: uuidv4(),
+      type: 'text',
+      x: 0,
+      y: 0,
+      angle,
+      scale: 1,
+      selected: false,
+      visible: true,
+      text: formatLength(length, unitSettings),
+      fontSize: TEXT_FONT_SIZES[0],
+      color: stroke.color
+    };
+    // Start of the text sits half its width before the midpoint, lifted off the line
+    const half = layoutText(label).width / 2;
+    const lift = stroke.width / 2 + 6;
+    label.x = (first.x + last.x) / 2 - Math.cos(rad) * half + Math.sin(rad) * lift;
+    label.y = (first.y + last.y) / 2 - Math.sin(rad) * half - Math.cos(rad) * lift;
+    return label;
+  };
+
+  // Sweeps the eraser circle from `from` to `to` in small steps, so fast moves don't skip ink
+  const eraseAlong = (from: { x: number, y: number }, to: { x: number, y: number }) => {
+    const start = eraserItems.current;
+    if (!start) return;
+    const radius = eraserSize / viewport.zoom;
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / (radius / 2)));
+
+    const centers = Array.from({ length: steps }, (_, i) => ({
+        x: from.x + (to.x - from.x) * (i + 1) / steps,
+        y: from.y + (to.y - from.y) * (i + 1) / steps
+    }));
+    let next = start;
+    if (eraserMode === 'partial') {
+        next = erasePartial(start, centers, radius) ?? start;
+    } else {
+        const erased = findObjectsToErase(start, centers, radius);
+        if (erased.size > 0) next = start.filter(item => !erased.has(item));
+    }
+
+    if (next !== start) {
+        history.commit();
+        eraserItems.current = next;
+        setItems(next);
+    }
+  };
+
+  // Mouse Wheel: Ctrl/Cmd (or trackpad pinch) zooms, plain wheel rotates the selected tool, otherwise pans
+  const handleWheel = (e: WheelEvent) => {
+    if (e.ctrlKey || e.metaKey) {
+        const screen = getScreenPos(e);
+        const factor = Math.exp(-e.deltaY * 0.0015);
+        setViewport(prev => zoomAt(prev, screen.x, screen.y, factor));
+        return;
+    }
+
+    const selection = getSelection(items).filter(i => (i as Widget).visible !== false);
+    if (selection.length === 0) {
+        const dx = e.shiftKey ? e.deltaY : e.deltaX;
+        const dy = e.shiftKey ? 0 : e.deltaY;
+        setViewport(prev => ({ ...prev, x: prev.x - dx, y: prev.y - dy }));
+        return;
+    }
+
+    const delta = Math.sign(e.deltaY) * 5; 
+    const selected = selection[0];
+    if (selection.length > 1 || selected.type === 'stroke' || selected.type === 'geometry' || selected.type === 'shape') {
+        const center = getSelectionCenter(selection);
+        if (!center) return;
+        history.record(`wheel-rotate:${selection.map(i => i.id).join(',')}`);
+        setItems(prev => prev.map(item => item.selected ? rotateItemAround(item, center, delta) : item));
+        return;
+    }
+
+    history.record(`wheel-rotate:${selected.id}`);
+    setItems(prev => prev.map(item => {
+        if (item.id === selected.id) {
+            const w = item as Widget;
+            return { ...w, angle: (w.angle || 0) + delta };
+        }
+        return item;
+    }));
+  };
+
+  // Native listener: React's onWheel is passive, so it can't stop the browser's own Ctrl+wheel zoom
+  const wheelHandler = useRef(handleWheel);
+  wheelHandler.current = handleWheel;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      wheelHandler.current(e);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Space + drag pans
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      const activeTag = document.activeElement?.tagName.toLowerCase();
+      if (activeTag === 'input' || activeTag === 'textarea') return;
+      e.preventDefault();
+      spaceHeld.current = e.type === 'keydown';
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, []);
+
+  // -- Viewport Controls --
+
+  const zoomBy = (factor: number) => {
+    setViewport(prev => zoomAt(prev, canvasSize.width / 2, canvasSize.height / 2, factor));
+  };
+
+  const zoomToFit = () => {
+    const bounds = getContentBounds(items);
+    if (!bounds) {
+      setViewport({ x: 0, y: 0, zoom: 1 });
+      return;
+    }
+    setViewport(fitBounds(bounds, canvasSize.width, canvasSize.height));
+  };
+
+  const centerViewOn = (wx: number, wy: number) => {
+    setViewport(prev => ({
+      ...prev,
+      x: canvasSize.width / 2 - wx * prev.zoom,
+      y: canvasSize.height / 2 - wy * prev.zoom
+    }));
+  };
+
+  // -- Tools Logic --
+
+  const addWidget = (type: Widget['type']) => {
+    // Singleton Logic for measurement tools
+    if (MEASUREMENT_TOOL_TYPES.includes(type)) {
+      const existingIndex = items.findIndex(i => i.type === type);
+      if (existingIndex !== -1) {
+        const existing = items[existingIndex] as Widget;
+        const willBeVisible = existing.visible === false; // If it was hidden (false), it becomes visible (true). If undefined/true, it becomes false.
+        
+        history.record();
+        setItems(prev => prev.map((i, idx) => {
+            if (idx === existingIndex) {
+                return { ...i, visible: willBeVisible, selected: willBeVisible };
+            }
+            return { ...i, selected: false }; // Deselect others if showing
+        }));
+
+        if (willBeVisible) {
+            selectedItemId.current = existing.id;
+            setMode('select');
+        } else {
+            if (selectedItemId.current === existing.id) {
+                selectedItemId.current = null;
+            }
+        }
+        return;
+      }
+    }
+
+    // Standard Creation Logic (for first time or non-singletons)
+    const { x: cx, y: cy } = getViewCenter();
+    
+    const widget: Widget = {
+      id: uuidv4(),
+      type,
+      x: cx,
+      y: cy,
+      angle: 0,
+      scale: 1,
+      selected: true,
+      visible: true, // Default visible
+      width: type === 'ruler' ? TOOL_DEFAULTS.RULER.width : (type === 'triangle' ? TOOL_DEFAULTS.TRIANGLE.width : undefined),
+      height: type === 'ruler' ? TOOL_DEFAULTS.RULER.height : (type === 'triangle' ? TOOL_DEFAULTS.TRIANGLE.height : (type === 'compass' ? TOOL_DEFAULTS.COMPASS.height : undefined)),
+      radius: type === 'protractor' ? TOOL_DEFAULTS.PROTRACTOR.radius : (type === 'compass' ? TOOL_DEFAULTS.COMPASS.radius : undefined),
+      measureAngle: type === 'protractor' ? PROTRACTOR_DEFAULT_ANGLE : undefined
+    };
+    
+    setMode('select');
+    history.record();
+    setItems(prev => [...prev.map(i => ({...i, selected: false})), widget]);
+    selectedItemId.current = widget.id;
+  };
+
+  const drawCompassCircle = (compass: Widget) => {
+    history.record();
+    setItems(prev => [...prev, { id: uuidv4(), type: 'stroke', points: getCompassArc(compass, 360), color, width, strokeStyle }]);
+  };
+
+  // Leaves a tick and a degree label where the protractor's arm points
+  const dropAngleMark = (protractor: Widget) => {
+    const mark = createAngleMark(protractor, color, width);
+    const label: Widget = {
+      id: uuidv4(),
+      type: 'text',
+      x: mark.labelAt.x - 12,
+      y: mark.labelAt.y + 5,
+      angle: 0,
+      scale: 1,
+      selected: false,
+      visible: true,
+      text: `${mark.angle}°`,
+      fontSize: TEXT_FONT_SIZES[0],
+      color
+    };
+    history.record();
+    setItems(prev => [...prev, { id: uuidv4(), type: 'stroke', points: mark.tick, color, width, strokeStyle: 'solid' }, label]);
+  };
+
+  const toggleVisibility = (id: string) => {
+      history.record();
       setItems(prev => prev.map(item => {
-        if (item.id === selectedItemId.current) {
-          return { ...item, x: (item as Widget).x + dx, y: (item as Widget).y + dy };
+          if (item.id === id) {
+              return { ...item, visible: !(item as Widget).visible };
+          }
+          return item;
+      }));
+  };
+
+  const deleteItem = (id: string) => {
+      history.record();
+      setItems(prev => prev.filter(i => i.id !== id));
+  };
+
+  const deleteSelection = () => {
+      if (!items.some(i => i.selected)) return;
+      history.record();
+      setItems(prev => prev.filter(i => !i.selected));
+      selectedItemId.current = null;
+  };
+  
+  const clearBoard = () => {
+      if (items.length === 0) return;
+      history.record();
+      setItems([]);
+      selectedItemId.current = null;
+  };
+
+  // Undo / Redo shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const activeTag = document.activeElement?.tagName.toLowerCase();
+      if (activeTag === 'input' || activeTag === 'textarea') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Delete / Backspace removes the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      const activeTag = document.activeElement?.tagName.toLowerCase();
+      if (activeTag === 'input' || activeTag === 'textarea' || activeTag === 'select') return;
+      e.preventDefault();
+      deleteSelection();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const isToolVisible = (type: Widget['type']) => {
+      return items.some(i => i.type === type && (i as Widget).visible !== false);
+  };
+
+  // -- Board Documents --
+
+  const buildDocument = useCallback((): BoardDocument => ({
+    version: BOARD_SCHEMA_VERSION,
+    id: boardMeta.id,
+    title: boardMeta.title,
+    createdAt: boardMeta.createdAt,
+    updatedAt: Date.now(),
+    pages,
+    settings: { snap, smartInk }
+  }), [boardMeta, pages, snap, smartInk]);
+
+  // `stored`: the document already has a record (loaded from storage rather than new or imported)
+  const applyDocument = (doc: BoardDocument, stored = true) => {
+    boardLoaded.current = true;
+    boardStored.current = stored;
+    setBoardMeta({ id: doc.id, title: doc.title, createdAt: doc.createdAt });
+    setPages(doc.pages);
+    setActivePageId(doc.pages[0].id);
+    activePageIdRef.current = doc.pages[0].id;
+    setSnap(doc.settings.snap);
+    setSmartInk(doc.settings.smartInk);
+    setCurrentStroke(null);
+    selectedItemId.current = null;
+    history.reset();
+  };
+
+  // Resolves to false when the board could not be saved
+  const persistBoard = useCallback(async () => {
+    const doc = buildDocument();
+    // A new board nobody has written on stays out of the recent list
+    if (!boardStored.current && isBlankBoard(doc)) return true;
+    setSaveStatus('saving');
+    try {
+      await saveBoard(doc);
+      boardStored.current = true;
+      setSaveStatus('saved');
+      return true;
+    } catch (e) {
+      setSaveStatus('error');
+      return false;
+    }
+  }, [buildDocument]);
+
+  // Switching away from a board that could not be saved loses its changes: ask first
+  const saveBeforeLeaving = async () =>
+    (await persistBoard()) || confirm("The current board could not be saved. Continue and lose its unsaved changes?");
+
+  // Restore the last board on startup
+  useEffect(() => {
+    loadLastBoard().then(doc => {
+      if (doc && !boardLoaded.current) applyDocument(doc);
+      boardLoaded.current = true;
+    });
+  }, []);
+
+  // Autosave (debounced)
+  useEffect(() => {
+    if (!boardLoaded.current) return;
+    const timer = setTimeout(persistBoard, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [persistBoard]);
+
+  const refreshRecentBoards = async () => {
+    try {
+      setRecentBoards(await listRecentBoards());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const handleNewBoard = async () => {
+    if (!(await saveBeforeLeaving())) return;
+    applyDocument(createBoardDocument(), false);
+  };
+
+  const handleOpenBoard = async (id: string) => {
+    setShowRecentBoards(false);
+    if (id === boardMeta.id) return;
+    if (!(await saveBeforeLeaving())) return;
+    try {
+      const doc = await loadBoard(id);
+      if (!doc) throw new Error('The board no longer exists.');
+      applyDocument(doc);
+    } catch (err) {
+      alert(`Could not open board: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDeleteBoard = async (id: string) => {
+    try {
+      await deleteBoard(id);
+    } catch (err) {
+      alert(`Could not delete board: ${(err as Error).message}`);
+      return;
+    }
+    if (id === boardMeta.id) applyDocument(createBoardDocument(), false);
+    refreshRecentBoards();
+  };
+
+  const handleImportBoard = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      if (!(await saveBeforeLeaving())) return;
+      applyDocument(await importBoardFile(file), false);
+    } catch (err) {
+      alert(`Could not import board: ${(err as Error).message}`);
+    }
+  };
+
+  // -- Text Editing --
+
+  const openTextEditor = (widget: Widget | null, at?: { x: number, y: number }) => {
+    if (widget) {
+        setTextEditor({ widget: { ...widget, selected: false }, isNew: false });
+        return;
+    }
+    setTextEditor({
+        isNew: true,
+        widget: {
+            id: uuidv4(),
+            type: 'text',
+            x: at?.x ?? 0,
+            y: at?.y ?? 0,
+            angle: 0,
+            scale: 1,
+            selected: false,
+            visible: true,
+            text: '',
+            fontSize: TEXT_DEFAULTS.fontSize,
+            color: color,
+            bold: false
+        }
+    });
+  };
+
+  const commitTextEditor = () => {
+    if (!textEditor) return;
+    const { widget, isNew } = textEditor;
+    const isEmpty = !(widget.text || '').trim();
+    setTextEditor(null);
+
+    if (isNew) {
+        if (isEmpty) return; // Nothing typed: don't leave an invisible item behind
+        history.record();
+        setItems(prev => [...prev, widget]);
+        return;
+    }
+
+    const original = items.find(i => i.id === widget.id) as Widget | undefined;
+    if (!original) return;
+    if (isEmpty) {
+        history.record();
+        setItems(prev => prev.filter(i => i.id !== widget.id));
+        return;
+    }
+    const changed = (['text', 'fontSize', 'color', 'bold'] as const).some(k => original[k] !== widget[k]);
+    if (!changed) return;
+    history.record();
+    setItems(prev => prev.map(i => (i.id === widget.id ? { ...widget, selected: (i as Widget).selected } : i)));
+  };
+
+  // -- Graphs --
+
+  // New graphs are only added once the editor is saved
+  const openGraphEditor = (widget: Widget | null) => {
+    if (widget) {
+        setGraphEditor({ widget, isNew: false });
+        return;
+    }
+    const { x, y } = getViewCenter();
+    setGraphEditor({
+        isNew: true,
+        widget: {
+            id: uuidv4(),
+            type: 'graph',
+            x,
+            y,
+            angle: 0,
+            scale: 1,
+            selected: true,
+            visible: true,
+            width: GRAPH_DEFAULTS.width,
+            height: GRAPH_DEFAULTS.height,
+            graph: createGraphSpec(color)
         }
-        return item;
-      }));
-    } 
-    else if (mode === 'eraser') {
-        setItems(prev => prev.filter(item => {
-            // Only erase strokes, not widgets (unless we want to)
-            if ((item as Widget).visible === false) return true; // Don't erase hidden
+    });
+  };
 
-            if (item.type === 'stroke') {
-                const s = item as Stroke;
-                return !s.points.some(p => Math.hypot(p.x - x, p.y - y) < 20);
-            }
-            return true;
-        }));
+  const saveGraph = (widget: Widget) => {
+    const isNew = graphEditor?.isNew;
+    setGraphEditor(null);
+    history.record();
+    if (isNew) {
+        setItems(prev => [...prev.map(i => ({ ...i, selected: false })), widget]);
+        selectedItemId.current = widget.id;
+        setMode('select');
+        return;
     }
-
-    lastPos.current = { x, y };
+    setItems(prev => prev.map(i => (i.id === widget.id ? { ...widget, selected: (i as Widget).selected } : i)));
   };
 
-  const handleMouseUp = () => {
-    isDragging.current = false;
-    
-    // Finalize Compass Stroke
-    if (dragType.current === 'compass_arc' && currentStroke) {
-        setItems(prev => [...prev, currentStroke]);
-        setCurrentStroke(null);
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (shapeDraft?.kind === 'polygon') {
+        finishPolygon();
+        return;
     }
-    // Finalize Pen Stroke
-    else if (mode === 'pen' && currentStroke) {
-      setItems(prev => [...prev, currentStroke]);
-      setCurrentStroke(null);
+    const { x, y } = getMousePos(e);
+    const hit = hitTest(x, y);
+    if (hit?.type === 'graph') {
+        openGraphEditor(hit as Widget);
+        return;
     }
+    if (hit?.type === 'tikz') {
+        setTikzEditor(hit as Widget);
+        return;
+    }
+    const target = findTextWidgetAt(x, y);
+    if (target) openTextEditor(target);
+  };
 
-    dragType.current = null;
-    compassPivot.current = null;
+  // -- Export --
+
+  const startRegionPick = () => {
+    setExportOpen(false);
+    setRegionPick('export');
   };
 
-  // Mouse Wheel for Rotation (Alternative)
-  const handleWheel = (e: React.WheelEvent) => {
-    if (selectedItemId.current) {
-        const delta = Math.sign(e.deltaY) * 5; 
-        setItems(prev => prev.map(item => {
-            if (item.id === selectedItemId.current && item.type !== 'stroke') {
-                const w = item as Widget;
-                return { ...w, angle: (w.angle || 0) + delta };
-            }
-            return item;
-        }));
+  const cancelRegionPick = () => {
+    setRegionPick(null);
+    setRegionRect(null);
+    if (regionPick === 'export') setExportOpen(true);
+  };
+
+  const finishRegionPick = () => {
+    if (!regionRect) return;
+    const b = normalizeRect(regionRect.start, regionRect.end);
+    setRegionRect(null);
+    setRegionPick(null);
+    // Ignore accidental clicks
+    const picked = (b.maxX - b.minX) * viewport.zoom > 5 && (b.maxY - b.minY) * viewport.zoom > 5;
+    if (regionPick === 'solve') {
+      if (picked) solveRegion(b, regionRect.path);
+      return;
     }
+    if (picked) {
+      setExportRegion(b);
+      setExportOptions(prev => ({ ...prev, area: 'selection' }));
+    }
+    setExportOpen(true);
   };
 
-  // -- Tools Logic --
+  const getExportBounds = (pageItems: CanvasItem[], area: ExportOptions['area']): Bounds => {
+    const visible = getVisibleWorldBounds(viewport, canvasSize.width, canvasSize.height);
+    if (area === 'viewport') return visible;
+    if (area === 'selection' && exportRegion) return exportRegion;
+    const content = getContentBounds(pageItems);
+    if (!content) return visible;
+    return {
+      minX: content.minX - EXPORT_PADDING,
+      minY: content.minY - EXPORT_PADDING,
+      maxX: content.maxX + EXPORT_PADDING,
+      maxY: content.maxY + EXPORT_PADDING
+    };
+  };
 
-  const addWidget = (type: Widget['type']) => {
-    // Singleton Logic for measurement tools
-    const singletons = ['ruler', 'protractor', 'triangle', 'compass'];
-    if (singletons.includes(type)) {
-      const existingIndex = items.findIndex(i => i.type === type);
-      if (existingIndex !== -1) {
-        const existing = items[existingIndex] as Widget;
-        const willBeVisible = existing.visible === false; // If it was hidden (false), it becomes visible (true). If undefined/true, it becomes false.
-        
-        setItems(prev => prev.map((i, idx) => {
-            if (idx === existingIndex) {
-                return { ...i, visible: willBeVisible, selected: willBeVisible };
-            }
-            return { ...i, selected: false }; // Deselect others if showing
-        }));
+  const handleExport = async () => {
+    const opts = exportOptions;
+    const toExportPage = (page: BoardPage, area: ExportOptions['area']): ExportPage => {
+      const exportItems = prepareExportItems(page.items, opts.includeTools);
+      return { items: exportItems, background: page.background, bounds: getExportBounds(exportItems, area) };
+    };
+    const pageIndex = pages.findIndex(p => p.id === activePage.id);
+    const filename = `${getSafeFileName(boardMeta.title)}${opts.allPages && opts.format === 'pdf' ? '' : `-p${pageIndex + 1}`}`;
 
-        if (willBeVisible) {
-            selectedItemId.current = existing.id;
-            setMode('select');
-        } else {
-            if (selectedItemId.current === existing.id) {
-                selectedItemId.current = null;
-            }
-        }
-        return;
+    setIsExporting(true);
+    try {
+      if (opts.format === 'png') {
+        await exportPng(toExportPage(activePage, opts.area), opts, filename);
+      } else if (opts.format === 'svg') {
+        await exportSvg(toExportPage(activePage, opts.area), opts, filename);
+      } else {
+        const exportPages = opts.allPages
+          ? pages.map(p => toExportPage(p, 'board'))
+          : [toExportPage(activePage, opts.area)];
+        await exportPdf(exportPages, opts, filename);
       }
+      setExportOpen(false);
+    } catch (e) {
+      alert(`Export failed.\n\n${e instanceof Error ? e.message : ''}`);
+    } finally {
+      setIsExporting(false);
     }
+  };
 
-    // Standard Creation Logic (for first time or non-singletons)
-    const canvas = canvasRef.current;
-    const cx = canvas ? canvas.width / 2 : 400;
-    const cy = canvas ? canvas.height / 2 : 300;
-    
-    const widget: Widget = {
-      id: uuidv4(),
-      type,
-      x: cx,
-      y: cy,
-      angle: 0,
-      scale: 1,
-      selected: true,
-      visible: true, // Default visible
-      width: type === 'ruler' ? TOOL_DEFAULTS.RULER.width : (type === 'triangle' ? TOOL_DEFAULTS.TRIANGLE.width : undefined),
-      height: type === 'ruler' ? TOOL_DEFAULTS.RULER.height : (type === 'triangle' ? TOOL_DEFAULTS.TRIANGLE.height : (type === 'compass' ? TOOL_DEFAULTS.COMPASS.height : undefined)),
-      radius: type === 'protractor' ? TOOL_DEFAULTS.PROTRACTOR.radius : undefined
-    };
-    
-    setMode('select');
-    setItems(prev => [...prev.map(i => ({...i, selected: false})), widget]);
-    selectedItemId.current = widget.id;
+  // -- Pages --
+
+  const goToPage = (id: string) => {
+    if (id === activePageId) return;
+    commitTextEditor();
+    setCurrentStroke(null);
+    selectedItemId.current = null;
+    isDragging.current = false;
+    dragType.current = null;
+    setActivePageId(id);
   };
 
-  const toggleVisibility = (id: string) => {
-      setItems(prev => prev.map(item => {
-          if (item.id === id) {
-              return { ...item, visible: !(item as Widget).visible };
-          }
-          return item;
-      }));
+  const goToPageOffset = (offset: number) => {
+    const idx = pages.findIndex(p => p.id === activePageId);
+    const next = pages[idx + offset];
+    if (next) goToPage(next.id);
   };
 
-  const deleteItem = (id: string) => {
-      setItems(prev => prev.filter(i => i.id !== id));
+  const addPage = () => {
+    const page = createPage(activePage.background);
+    const idx = pages.findIndex(p => p.id === activePageId);
+    setPages(prev => [...prev.slice(0, idx + 1), page, ...prev.slice(idx + 1)]);
+    goToPage(page.id);
   };
-  
-  const isToolVisible = (type: Widget['type']) => {
-      return items.some(i => i.type === type && (i as Widget).visible !== false);
+
+  const duplicateActivePage = (id: string) => {
+    const source = pages.find(p => p.id === id);
+    if (!source) return;
+    const copy = duplicatePage(source);
+    const idx = pages.findIndex(p => p.id === id);
+    setPages(prev => [...prev.slice(0, idx + 1), copy, ...prev.slice(idx + 1)]);
+    goToPage(copy.id);
+  };
+
+  const deletePage = (id: string) => {
+    if (pages.length <= 1) return;
+    const page = pages.find(p => p.id === id);
+    if (page && page.items.length > 0 && !confirm('Delete this page and everything on it?')) return;
+    const idx = pages.findIndex(p => p.id === id);
+    const remaining = pages.filter(p => p.id !== id);
+    setPages(remaining);
+    if (id === activePageId) goToPage(remaining[Math.min(idx, remaining.length - 1)].id);
+  };
+
+  const movePage = (from: number, to: number) => {
+    if (to < 0 || to >= pages.length) return;
+    setPages(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const cycleBackground = () => {
+    const next = BACKGROUNDS[(BACKGROUNDS.indexOf(activePage.background) + 1) % BACKGROUNDS.length];
+    setPages(prev => prev.map(p => (p.id === activePageId ? { ...p, background: next } : p)));
   };
 
+  // Page navigation: PageUp / PageDown (also what presentation clickers send); Esc cancels region picking, a shape or a construction
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const activeTag = document.activeElement?.tagName.toLowerCase();
+      if (activeTag === 'input' || activeTag === 'textarea') return;
+      if (e.key === 'PageDown') {
+        e.preventDefault();
+        goToPageOffset(1);
+      } else if (e.key === 'PageUp') {
+        e.preventDefault();
+        goToPageOffset(-1);
+      } else if (e.key === 'Escape' && regionPick) {
+        cancelRegionPick();
+      } else if (e.key === 'Escape' && shapeDraft) {
+        setShapeDraft(null);
+      } else if (e.key === 'Enter' && shapeDraft?.kind === 'polygon') {
+        finishPolygon();
+      } else if (e.key === 'Escape' && geometryPicks.length > 0) {
+        setGeometryPicks([]);
+        setItems(prev => prev.map(i => ({ ...i, selected: false })));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // -- Paste Logic --
 
   // 1. Paste to Canvas (Ctrl+V)
@@ -454,11 +1777,12 @@ const App: React.FC = () => {
             // Add to Canvas
             const img = new Image();
             img.onload = () => {
+                const center = getViewCenter();
                 const widget: Widget = {
                     id: uuidv4(),
                     type: 'image',
-                    x: canvasRef.current?.width ? canvasRef.current.width / 2 : 300,
-                    y: canvasRef.current?.height ? canvasRef.current.height / 2 : 300,
+                    x: center.x,
+                    y: center.y,
                     angle: 0,
                     scale: 0.5, 
                     selected: true,
@@ -467,6 +1791,7 @@ const App: React.FC = () => {
                     width: img.width,
                     height: img.height
                 };
+                history.record();
                 setItems(prev => [...prev, widget]);
                 setMode('select');
             };
@@ -476,7 +1801,7 @@ const App: React.FC = () => {
         }
       }
     }
-  }, []);
+  }, [history.record]);
 
   // 2. Paste to AI (Button Click)
   const handleAIPaste = async () => {
@@ -510,69 +1835,250 @@ const App: React.FC = () => {
 
   // -- AI Interactions --
 
+  // Streams into the result modal; resolves to the final answer, or null when stopped or failed
+  const runSolve = async (base64Data: string): Promise<AIResult | null> => {
+    const controller = new AbortController();
+    solveController.current = controller;
+    setIsProcessing(true);
+    setSolveStatus('streaming');
+    setOcrResult({ ocr: '', solution: '', steps: [], answer: '' });
+    setSolveRun(n => n + 1);
+    setShowResultModal(true);
+    let received = false;
+    try {
+      const result = await solveMathFromImage(base64Data, promptText, {
+        signal: controller.signal,
+        onProgress: (partial) => {
+          received = true;
+          setOcrResult(partial);
+        }
+      });
+      setOcrResult(result);
+      setSolveStatus('done');
+      return result;
+    } catch (e) {
+      setSolveStatus('stopped');
+      if (!controller.signal.aborted) {
+        if (!received) setShowResultModal(false);
+        alert(`Error processing image. Check the AI provider settings.\n\n${e instanceof Error ? e.message : ''}`);
+      }
+      return null;
+    } finally {
+      setIsProcessing(false);
+      solveController.current = null;
+    }
+  };
+
   const handleSolve = async () => {
     if (!pastedImage) {
       alert("Please paste an image into the AI Panel first.");
       return;
     }
-    setIsProcessing(true);
+    await runSolve(pastedImage.split(',')[1]);
+  };
+
+  const startSolvePick = () => {
+    if (isProcessing) return;
+    setExportOpen(false);
+    setRegionPick('solve');
+  };
+
+  // Rasterizes the region as drawn (no measuring tools), solves it and writes the answer to its right
+  const solveRegion = async (bounds: Bounds, lasso?: { x: number, y: number }[]) => {
+    const pageId = activePage.id;
+    let image: string;
     try {
-      const base64Data = pastedImage.split(',')[1];
-      const result = await solveMathFromImage(base64Data, promptText);
-      setOcrResult(result);
-      setShowResultModal(true); 
+      image = await renderRegionToDataUrl({ items: prepareExportItems(items, false), background: 'plain', bounds }, SOLVE_REGION.scale, lasso);
     } catch (e) {
-      alert("Error processing image. Check API Key.");
-    } finally {
-      setIsProcessing(false);
+      alert("Could not capture the selected region.");
+      return;
     }
+    setPastedImage(image);
+    const result = await runSolve(image.split(',')[1]);
+    if (result) insertSolutionText(solutionToBoardBlocks(result, SOLVE_REGION.wrapChars), pageId, { x: bounds.maxX + SOLVE_REGION.gap, y: bounds.minY });
   };
 
-  // Typeset math when result modal opens
-  useEffect(() => {
-    if (showResultModal && ocrResult && (window as any).MathJax) {
-        setTimeout(() => {
-            (window as any).MathJax.typesetPromise();
-        }, 100);
+  // -- Handwriting to LaTeX --
+
+  const recognizeInk = async (image: string) => {
+    handwritingController.current?.abort();
+    const controller = new AbortController();
+    handwritingController.current = controller;
+    setHandwriting(prev => prev && { ...prev, image, status: 'recognizing', error: undefined });
+    try {
+      const latex = await recognizeHandwriting(image.split(',')[1], controller.signal);
+      setHandwriting(prev => prev && { ...prev, latex, status: 'ready' });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setHandwriting(prev => prev && { ...prev, status: 'error', error: e instanceof Error ? e.message : undefined });
+    }
+  };
+
+  // Only the selected strokes are rasterized, so nearby content doesn't leak into the transcription
+  const startHandwritingOcr = async () => {
+    const strokes = items.filter(i => i.type === 'stroke' && i.selected) as Stroke[];
+    const bounds = getContentBounds(strokes);
+    if (!bounds) return;
+    const pad = HANDWRITING_OCR.padding;
+    let image: string;
+    try {
+      image = await renderRegionToDataUrl({
+        items: prepareExportItems(strokes, false),
+        background: 'plain',
+        bounds: { minX: bounds.minX - pad, minY: bounds.minY - pad, maxX: bounds.maxX + pad, maxY: bounds.maxY + pad }
+      }, HANDWRITING_OCR.scale);
+    } catch (e) {
+      alert("Could not capture the selected ink.");
+      return;
+    }
+    setHandwriting({ pageId: activePage.id, strokes, image, latex: '', status: 'recognizing' });
+    recognizeInk(image);
+  };
+
+  const cancelHandwriting = () => {
+    handwritingController.current?.abort();
+    handwritingController.current = null;
+    setHandwriting(null);
+  };
+
+  // The strokes give way to one text widget in the same place, sized to the writing and in the ink's color
+  const confirmHandwriting = () => {
+    if (!handwriting || !handwriting.latex.trim()) return;
+    const bounds = getContentBounds(handwriting.strokes);
+    if (!bounds) return;
+    const lines = handwriting.latex.split('\n').filter(l => l.trim());
+    const lineHeight = (bounds.maxY - bounds.minY) / lines.length;
+    const fontSize = TEXT_FONT_SIZES.reduce((best, size) =>
+      Math.abs(size * TEXT_DEFAULTS.lineHeight - lineHeight) < Math.abs(best * TEXT_DEFAULTS.lineHeight - lineHeight) ? size : best);
+    const widget: Widget = {
+      id: uuidv4(),
+      type: 'text',
+      x: bounds.minX,
+      y: 0,
+      angle: 0,
+      scale: 1,
+      selected: false,
+      visible: true,
+      text: lines.map(l => `$${l.trim()}$`).join('\n'),
+      fontSize,
+      color: handwriting.strokes[0].color
+    };
+    widget.y = bounds.minY - layoutText(widget).top;
+    const replaced = new Set(handwriting.strokes.map(s => s.id));
+    history.record();
+    setPages(prev => prev.map(page => page.id === handwriting.pageId
+      ? { ...page, items: [...page.items.filter(i => !replaced.has(i.id)), widget] }
+      : page));
+    selectedItemId.current = null;
+    cancelHandwriting();
+  };
+
+  // Text widgets stacked downwards from `at` (top-left corner), or centered in the view
+  const insertSolutionText = (texts: string[], pageId = activePage.id, at?: { x: number, y: number }) => {
+    const fontSize = TEXT_DEFAULTS.fontSize;
+    const widgets: Widget[] = texts.map(text => ({
+      id: uuidv4(),
+      type: 'text',
+      x: 0,
+      y: 0,
+      angle: 0,
+      scale: 1,
+      selected: false,
+      visible: true,
+      text,
+      fontSize,
+      color
+    }));
+    const layouts = widgets.map(w => layoutText(w));
+    const height = layouts.reduce((sum, l) => sum + l.height, 0) + fontSize * (widgets.length - 1);
+    let origin = at;
+    if (!origin) {
+      const view = getVisibleWorldBounds(viewport, canvasSize.width, canvasSize.height);
+      const width = Math.max(...layouts.map(l => l.width));
+      origin = { x: (view.minX + view.maxX - width) / 2, y: (view.minY + view.maxY - height) / 2 };
     }
-  }, [showResultModal, ocrResult]);
+    // A text widget's y is its first baseline
+    let top = origin.y;
+    widgets.forEach((w, i) => {
+      w.x = origin.x;
+      w.y = top - layouts[i].top;
+      top += layouts[i].height + fontSize;
+    });
+    history.record();
+    setPages(prev => prev.map(page => page.id === pageId ? { ...page, items: [...page.items, ...widgets] } : page));
+  };
+
+  // Cancels the request; the partial answer stays in the result modal
+  const stopSolve = () => solveController.current?.abort();
+
+  // Recompiled in place: same id, position, angle and scale
+  const saveTikz = (widget: Widget) => {
+    setTikzEditor(null);
+    const original = items.find(i => i.id === widget.id) as Widget | undefined;
+    if (!original || (original.src === widget.src && original.tikz?.code === widget.tikz?.code)) return;
+    history.record();
+    setItems(prev => prev.map(i => (i.id === widget.id ? { ...widget, selected: (i as Widget).selected } : i)));
+  };
 
   const handleGenerateTikz = async () => {
     setIsProcessing(true);
+    setTikzFailure(null);
+    let attempted = '';
     try {
-      const code = await generateTikzCode(tikzDesc, tikzType);
-      const base64Img = await compileTikz(code);
-      
-      const fullSrc = `data:image/png;base64,${base64Img}`;
+      attempted = await generateTikzCode(tikzDesc, tikzType);
+      // LaTeX errors go back to the model together with the log, a bounded number of times
+      const { result, code } = await compileWithRepair(
+        attempted,
+        async (failed, log) => (attempted = await repairTikzCode(failed, log, tikzDesc, tikzType)),
+        setTikzProgress
+      );
+      const fullSrc = result.src;
       const img = new Image();
       img.onload = () => {
+        const center = getViewCenter();
         const widget: Widget = {
             id: uuidv4(),
-            type: 'image',
-            x: canvasRef.current?.width ? canvasRef.current.width / 2 : 400,
-            y: canvasRef.current?.height ? canvasRef.current.height / 2 : 300,
+            type: 'tikz',
+            x: center.x,
+            y: center.y,
             angle: 0,
             scale: 1,
             selected: true,
             visible: true,
             src: fullSrc,
             width: img.width,
-            height: img.height
+            height: img.height,
+            tikz: { code, diagramType: tikzType, description: tikzDesc }
         };
+        history.record();
         setItems(prev => [...prev, widget]);
       };
       img.src = fullSrc;
       
       setTikzModalOpen(false);
     } catch (e) {
-      alert("Failed to generate or compile TikZ. Try a simpler description.");
+      setTikzFailure({ message: e instanceof Error ? e.message : String(e), log: getCompileLog(e), code: attempted });
     } finally {
       setIsProcessing(false);
+      setTikzProgress(null);
     }
   };
 
   // Filter for Layer Panel (Only Widgets)
-  const widgetItems = items.filter(i => i.type !== 'stroke') as Widget[];
+  const widgetItems = items.filter(i => i.type !== 'stroke' && i.type !== 'geometry' && i.type !== 'shape') as Widget[];
+  const selectedShapes = items.filter(i => isShape(i) && i.selected) as ShapeItem[];
+  const showShapeOptions = mode === 'shape' || selectedShapes.length > 0;
+  const showArrowheads = (mode === 'shape' && shapeTool === 'arrow') || selectedShapes.some(s => s.kind === 'arrow');
+  // Screen corner of the freshly recognized shape (gone once it is undone, erased or on another page)
+  const recognizedItem = inkRevert && items.find(i => i.id === inkRevert.strokeId);
+  const revertAnchor = recognizedItem ? worldToScreen(getItemBounds(recognizedItem).maxX, getItemBounds(recognizedItem).maxY, viewport) : null;
+  // Screen corner of the selected ink, for the "to LaTeX" action
+  const selectedInk = mode === 'select' && !handwriting ? items.filter(i => i.type === 'stroke' && i.selected) : [];
+  const inkBounds = selectedInk.length > 0 ? getContentBounds(selectedInk) : null;
+  const inkAnchor = inkBounds ? worldToScreen(inkBounds.maxX, inkBounds.minY, viewport) : null;
+  const aiProvider = AI_PROVIDERS.find(p => p.id === aiSettings.provider) || getAIProvider();
+  const selectedProtractor = widgetItems.find(w => w.type === 'protractor' && w.selected && w.visible !== false);
+  const selectedCompass = widgetItems.find(w => w.type === 'compass' && w.selected && w.visible !== false);
 
   return (
     <div className="flex flex-col h-screen bg-slate-50">
@@ -582,13 +2088,77 @@ const App: React.FC = () => {
           <FaCalculator className="text-2xl" />
           <div>
             <h1 className="text-xl font-bold">Teaching Board AI</h1>
-            <p className="text-xs text-teal-100">Gemini 2.5 Flash • TikZ • OCR</p>
+            <p className="text-xs text-teal-100">{aiProvider.label} • TikZ • OCR</p>
           </div>
         </div>
-        <div className="flex gap-4 text-sm font-semibold">
-          <span className={`px-3 py-1 rounded-full ${process.env.API_KEY ? 'bg-green-500' : 'bg-red-500'}`}>
-            API Key: {process.env.API_KEY ? 'Configured' : 'Missing'}
+        <div className="flex gap-2 items-center text-sm">
+          <input
+            className="bg-teal-700/60 text-white placeholder-teal-200 px-2 py-1 rounded w-48 focus:outline-none focus:ring-1 focus:ring-white"
+            value={boardMeta.title}
+            onChange={(e) => setBoardMeta(prev => ({ ...prev, title: e.target.value }))}
+            title="Board title"
+          />
+          <span className="text-xs text-teal-100 w-16">
+            {saveStatus === 'saving' ? 'Saving...' : (saveStatus === 'error' ? 'Save failed' : 'Saved')}
           </span>
+          <HeaderBtn icon={<FaPlus />} onClick={handleNewBoard} label="New Board" />
+          <HeaderBtn icon={<FaSave />} onClick={persistBoard} label="Save Now" />
+          <div className="relative">
+            <HeaderBtn
+              icon={<FaHistory />}
+              onClick={() => { refreshRecentBoards(); setShowRecentBoards(!showRecentBoards); }}
+              label="Recent Boards"
+            />
+            {showRecentBoards && (
+              <div className="absolute right-0 top-10 w-72 bg-white text-slate-700 shadow-xl border rounded-lg p-3 z-50">
+                <h3 className="font-bold text-sm mb-2 flex justify-between items-center">
+                  <span>Recent Boards</span>
+                  <button onClick={() => setShowRecentBoards(false)} className="text-slate-400 hover:text-slate-600"><FaTimes/></button>
+                </h3>
+                <div className="max-h-72 overflow-y-auto flex flex-col gap-1">
+                  {recentBoards.length === 0 ? (
+                    <p className="text-xs text-slate-400 italic p-2 text-center">No saved boards.</p>
+                  ) : (
+                    recentBoards.map(b => (
+                      <div key={b.id} className={`flex items-center justify-between p-2 rounded border ${b.id === boardMeta.id ? 'border-teal-500 bg-teal-50' : 'border-slate-100 hover:bg-slate-50'}`}>
+                        <div className="flex items-center gap-2 truncate cursor-pointer flex-1" onClick={() => handleOpenBoard(b.id)}>
+                          <FaFolderOpen size={12} />
+                          <div className="truncate">
+                            <div className="text-sm truncate">{b.title}</div>
+                            <div className="text-[10px] text-slate-400">{new Date(b.updatedAt).toLocaleString()}</div>
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => handleDeleteBoard(b.id)}
+                          className="p-1.5 rounded hover:bg-red-100 text-red-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <FaTrash size={12}/>
+                        </button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+          <HeaderBtn icon={<FaDownload />} onClick={() => setExportOpen(true)} label="Export PNG / SVG / PDF" />
+          <HeaderBtn icon={<FaFileImport />} onClick={() => importInputRef.current?.click()} label={`Import ${BOARD_FILE_EXTENSION}`} />
+          <HeaderBtn icon={<FaFileExport />} onClick={() => exportBoardFile(buildDocument())} label={`Export ${BOARD_FILE_EXTENSION}`} />
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={`${BOARD_FILE_EXTENSION},application/json`}
+            className="hidden"
+            onChange={handleImportBoard}
+          />
+          <button
+            onClick={() => setShowAISettings(true)}
+            className={`px-3 py-1 rounded-full font-semibold hover:brightness-110 ${aiProvider.isConfigured() ? 'bg-green-500' : 'bg-red-500'}`}
+            title="Choose the AI provider"
+          >
+            AI: {aiProvider.isConfigured() ? aiProvider.label : 'Not configured'}
+          </button>
         </div>
       </header>
 
@@ -600,6 +2170,8 @@ const App: React.FC = () => {
           <ToolBtn icon={<FaMousePointer />} active={mode === 'select'} onClick={() => setMode('select')} label="Select" />
           <ToolBtn icon={<FaPen />} active={mode === 'pen'} onClick={() => setMode('pen')} label="Pen" />
           <ToolBtn icon={<FaEraser />} active={mode === 'eraser'} onClick={() => setMode('eraser')} label="Eraser" />
+          <ToolBtn icon={<FaUndo />} onClick={history.undo} disabled={!history.canUndo} label="Undo (Ctrl+Z)" />
+          <ToolBtn icon={<FaRedo />} onClick={history.redo} disabled={!history.canRedo} label="Redo (Ctrl+Shift+Z)" />
           <div className="h-px w-8 bg-slate-200 my-1"></div>
           
           {/* Singleton Measurement Tools */}
@@ -625,12 +2197,16 @@ const App: React.FC = () => {
             icon={<FaCircleNotch />} 
             active={isToolVisible('protractor')} 
             onClick={() => addWidget('protractor')} 
-            label="Protractor" 
+            label="Protractor (Drag the Arm to Measure)" 
           />
           
-          <ToolBtn icon={<FaFont />} onClick={() => addWidget('text')} label="Text" />
+          <ToolBtn icon={<FaVectorSquare />} active={mode === 'shape'} onClick={() => setMode('shape')} label="Shapes (Shift: 45° lines, squares, circles; drag vertices to edit)" />
+          <ToolBtn icon={<FaProjectDiagram />} active={mode === 'geometry'} onClick={() => setMode('geometry')} label="Geometry (points, lines, circles and constructions)" />
+          <ToolBtn icon={<FaFont />} active={mode === 'text'} onClick={() => setMode('text')} label="Text (click to type, $...$ for math; double-click text to edit)" />
+          <ToolBtn icon={<FaChartArea />} onClick={() => openGraphEditor(null)} label="Graph (plot functions; double-click a graph to edit)" />
           <div className="h-px w-8 bg-slate-200 my-1"></div>
-          <ToolBtn icon={<FaChartLine />} onClick={() => setTikzModalOpen(true)} label="TikZ" />
+          <ToolBtn icon={<FaChartLine />} onClick={() => setTikzModalOpen(true)} label="TikZ (double-click a diagram to edit its code)" />
+          <ToolBtn icon={<FaCrop />} active={regionPick === 'solve'} onClick={startSolvePick} label="Solve selection (drag a rectangle or lasso around a problem)" />
           
           {/* Manage Layers/Visibility */}
           <div className="relative">
@@ -666,6 +2242,8 @@ const App: React.FC = () => {
                                             {w.type === 'protractor' && <FaCircleNotch/>}
                                             {w.type === 'image' && <FaImage/>}
                                             {w.type === 'text' && <FaFont/>}
+                                            {w.type === 'graph' && <FaChartArea/>}
+                                            {w.type === 'tikz' && <FaChartLine/>}
                                         </span>
                                         <span className="capitalize truncate w-24">{w.type} {idx+1}</span>
                                     </div>
@@ -693,18 +2271,120 @@ const App: React.FC = () => {
              )}
           </div>
 
-          <ToolBtn icon={<FaTrash />} onClick={() => setItems([])} color="text-red-500" label="Clear Board" />
+          <ToolBtn icon={<FaTrash />} onClick={clearBoard} color="text-red-500" label="Clear Board" />
         </div>
 
         {/* Properties Bar */}
         <div className="absolute top-4 left-20 bg-white/90 backdrop-blur p-2 rounded-lg shadow border border-slate-200 flex gap-3 items-center z-10 flex-wrap">
+          {/* Eraser Options */}
+          {mode === 'eraser' && (
+            <>
+              <button className={`px-2 py-1 text-xs rounded ${eraserMode === 'partial' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setEraserMode('partial')} title="Partial Eraser: cuts through strokes">
+                Partial
+              </button>
+              <button className={`px-2 py-1 text-xs rounded ${eraserMode === 'object' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setEraserMode('object')} title="Object Eraser: removes whole strokes, text and images">
+                Object
+              </button>
+              {ERASER_SIZES.map(size => (
+                <button
+                  key={size}
+                  className={`w-7 h-7 flex items-center justify-center rounded hover:bg-slate-100 ${eraserSize === size ? 'bg-slate-200' : ''}`}
+                  onClick={() => setEraserSize(size)}
+                  title={`Eraser Size ${size}px`}
+                >
+                  <div className="border border-slate-600 rounded-full" style={{ width: 4 + size / 4, height: 4 + size / 4 }} />
+                </button>
+              ))}
+              <div className="w-px h-6 bg-slate-300 mx-1"></div>
+            </>
+          )}
+
+          {/* Shape Tools */}
+          {showShapeOptions && (
+            <>
+              {mode === 'shape' && SHAPE_TOOLS.map(tool => (
+                <button
+                  key={tool.kind}
+                  className={`px-2 py-1 text-xs rounded ${shapeTool === tool.kind ? 'bg-slate-200' : 'hover:bg-slate-100'}`}
+                  onClick={() => setShapeTool(tool.kind)}
+                  title={tool.kind === 'polygon' ? 'Polygon: click the vertices, double-click or click the first one to finish' : tool.label}
+                >
+                  {tool.label}
+                </button>
+              ))}
+              <span className="text-xs text-slate-500">Fill</span>
+              <button
+                className={`w-5 h-5 rounded border-2 bg-white text-[10px] leading-none text-red-500 ${!shapeFill ? 'border-slate-900' : 'border-slate-300'}`}
+                onClick={() => { setShapeFill(undefined); updateShapeStyle({ fill: undefined }); }}
+                title="No Fill"
+              >
+                /
+              </button>
+              {COLORS.map(c => (
+                <button
+                  key={c}
+                  className={`w-5 h-5 rounded border-2 ${shapeFill === c ? 'border-slate-900' : 'border-transparent'}`}
+                  style={{ backgroundColor: c, opacity: 0.3 + shapeFillOpacity * 0.7 }}
+                  onClick={() => { setShapeFill(c); updateShapeStyle({ fill: c }); }}
+                  title="Fill Color"
+                />
+              ))}
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={shapeFillOpacity}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setShapeFillOpacity(value);
+                  updateShapeStyle({ fillOpacity: value }, 'shape-fill-opacity');
+                }}
+                className="w-20"
+                title={`Fill Opacity ${Math.round(shapeFillOpacity * 100)}%`}
+              />
+              {showArrowheads && ARROWHEADS.map(head => (
+                <button
+                  key={head.style}
+                  className={`w-7 h-7 text-base rounded ${arrowhead === head.style ? 'bg-slate-200' : 'hover:bg-slate-100'}`}
+                  onClick={() => { setArrowhead(head.style); updateShapeStyle({ arrowhead: head.style }); }}
+                  title={`Arrowhead: ${head.style}`}
+                >
+                  {head.label}
+                </button>
+              ))}
+              <div className="w-px h-6 bg-slate-300 mx-1"></div>
+            </>
+          )}
+
+          {/* Geometry Constructions */}
+          {mode === 'geometry' && (
+            <>
+              {GEOMETRY_TOOLS.map(tool => (
+                <button
+                  key={tool.kind}
+                  className={`px-2 py-1 text-xs rounded ${geometryTool === tool.kind ? 'bg-slate-200' : 'hover:bg-slate-100'}`}
+                  onClick={() => setGeometryTool(tool.kind)}
+                  title={tool.hint}
+                >
+                  {tool.label}
+                </button>
+              ))}
+              <span className="text-xs text-slate-500">
+                {GEOMETRY_TOOLS.find(t => t.kind === geometryTool)?.hint}
+                {geometryPicks.length > 0 && ` (${geometryPicks.length}/${GEOMETRY_TOOL_INPUTS[geometryTool].length}, Esc to cancel)`}
+              </span>
+              <div className="w-px h-6 bg-slate-300 mx-1"></div>
+            </>
+          )}
+
           {/* Color Picker */}
           {COLORS.map(c => (
             <button 
               key={c}
               className={`w-6 h-6 rounded-full border-2 ${color === c ? 'border-slate-900 scale-110' : 'border-transparent'}`}
               style={{ backgroundColor: c }}
-              onClick={() => setColor(c)}
+              onClick={() => { setColor(c); updateShapeStyle({ color: c }); }}
             />
           ))}
           <div className="w-px h-6 bg-slate-300 mx-1"></div>
@@ -714,7 +2394,7 @@ const App: React.FC = () => {
             <button
               key={w}
               className={`w-6 h-6 flex items-center justify-center rounded hover:bg-slate-100 ${width === w ? 'bg-slate-200' : ''}`}
-              onClick={() => setWidth(w)}
+              onClick={() => { setWidth(w); updateShapeStyle({ width: w }); }}
             >
               <div className="bg-slate-800 rounded-full" style={{ width: w, height: w }} />
             </button>
@@ -723,21 +2403,67 @@ const App: React.FC = () => {
           <div className="w-px h-6 bg-slate-300 mx-1"></div>
           
           {/* Stroke Style */}
-          <button className={`p-1 rounded ${strokeStyle === 'solid' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setStrokeStyle('solid')} title="Solid Pen">
+          <button className={`p-1 rounded ${strokeStyle === 'solid' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => { setStrokeStyle('solid'); updateShapeStyle({ strokeStyle: 'solid' }); }} title="Solid Pen">
             <MdOutlineLinearScale className="text-lg"/>
           </button>
-          <button className={`p-1 rounded ${strokeStyle === 'marker' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setStrokeStyle('marker')} title="Highlighter">
+          <button className={`p-1 rounded ${strokeStyle === 'marker' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => { setStrokeStyle('marker'); updateShapeStyle({ strokeStyle: 'marker' }); }} title="Highlighter">
             <FaHighlighter className="text-lg"/>
           </button>
-          <button className={`p-1 rounded ${strokeStyle === 'dashed' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setStrokeStyle('dashed')} title="Dashed Line">
+          <button className={`p-1 rounded ${strokeStyle === 'dashed' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => { setStrokeStyle('dashed'); updateShapeStyle({ strokeStyle: 'dashed' }); }} title="Dashed Line">
             <MdBorderStyle className="text-lg"/>
           </button>
-           <button className={`p-1 rounded ${strokeStyle === 'dotted' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => setStrokeStyle('dotted')} title="Dotted Line">
+           <button className={`p-1 rounded ${strokeStyle === 'dotted' ? 'bg-slate-200' : 'hover:bg-slate-100'}`} onClick={() => { setStrokeStyle('dotted'); updateShapeStyle({ strokeStyle: 'dotted' }); }} title="Dotted Line">
             <FaEllipsisH className="text-lg"/>
           </button>
 
           <div className="w-px h-6 bg-slate-300 mx-1"></div>
           
+          {/* Compass opening */}
+          {selectedCompass && (
+            <>
+              <span className="text-xs font-mono text-teal-700" title="Drag the pencil tip to open or close the compass">
+                r = {Math.round(getCompassGeometry(selectedCompass).radius)} px ({formatLength(getCompassGeometry(selectedCompass).radius, unitSettings)})
+              </span>
+              <button
+                className={`px-2 py-1 text-xs rounded ${compassFullCircle ? 'bg-teal-100 text-teal-700' : 'hover:bg-slate-100'}`}
+                onClick={() => setCompassFullCircle(!compassFullCircle)}
+                title="Full Circle: right-click the compass to draw a whole circle in one go"
+              >
+                Full Circle
+              </button>
+              <button className="px-2 py-1 text-xs rounded hover:bg-slate-100" onClick={() => drawCompassCircle(selectedCompass)} title="Draw the circle now">
+                Draw Circle
+              </button>
+              <div className="w-px h-6 bg-slate-300 mx-1"></div>
+            </>
+          )}
+
+          {/* Protractor reading */}
+          {selectedProtractor && (
+            <>
+              <span className="text-xs font-mono text-teal-700" title="Drag the protractor's arm handle to measure">∠ {selectedProtractor.measureAngle ?? PROTRACTOR_DEFAULT_ANGLE}°</span>
+              <button className="px-2 py-1 text-xs rounded hover:bg-slate-100" onClick={() => dropAngleMark(selectedProtractor)} title="Mark this angle on the board">
+                Mark Angle
+              </button>
+              <div className="w-px h-6 bg-slate-300 mx-1"></div>
+            </>
+          )}
+
+          <button 
+            className={`p-1 rounded ${penOnly ? 'bg-teal-100 text-teal-700' : 'text-slate-400'}`}
+            onClick={() => setPenOnly(!penOnly)}
+            title="Pen-only Drawing (Palm Rejection): fingers never ink, two fingers still zoom/rotate"
+          >
+            <FaHandPaper className="text-lg"/>
+          </button>
+          <button 
+            className="p-1 rounded flex items-center gap-1 text-xs text-slate-600 hover:bg-slate-100"
+            onClick={() => setShowUnitsDialog(true)}
+            title="Units & Calibration"
+          >
+            <FaRuler className="text-lg"/>
+            <span>{UNIT_SCALES[unitSettings.unit].label}</span>
+          </button>
           <button 
             className={`p-1 rounded ${snap ? 'bg-teal-100 text-teal-700' : 'text-slate-400'}`}
             onClick={() => setSnap(!snap)}
@@ -746,11 +2472,19 @@ const App: React.FC = () => {
             <FaMagnet className="text-lg"/>
           </button>
           <button 
-            className={`p-1 rounded ${grid ? 'bg-teal-100 text-teal-700' : 'text-slate-400'}`}
-            onClick={() => setGrid(!grid)}
-            title="Grid"
+            className={`p-1 rounded ${smartInk ? 'bg-teal-100 text-teal-700' : 'text-slate-400'}`}
+            onClick={() => setSmartInk(!smartInk)}
+            title="Smart Ink: turn freehand lines, circles, rectangles and arrows into clean shapes"
+          >
+            <FaMagic className="text-lg"/>
+          </button>
+          <button 
+            className={`p-1 rounded flex items-center gap-1 text-xs ${activePage.background !== 'plain' ? 'bg-teal-100 text-teal-700' : 'text-slate-400'}`}
+            onClick={cycleBackground}
+            title="Page Background (click to change)"
           >
             <FaGripLines className="text-lg"/>
+            <span className="capitalize">{activePage.background}</span>
           </button>
         </div>
 
@@ -758,16 +2492,88 @@ const App: React.FC = () => {
         <div className="flex-1 bg-slate-100 relative cursor-crosshair" ref={containerRef}>
           <canvas
             ref={canvasRef}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-            onWheel={handleWheel}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={handleDoubleClick}
+            onPointerLeave={() => setEraserCursor(null)}
             onContextMenu={(e) => e.preventDefault()} // Disable context menu
-            className="absolute top-0 left-0 touch-none"
+            className={`absolute top-0 left-0 touch-none ${mode === 'eraser' ? 'cursor-none' : ''}`}
           />
+          {textEditor && (
+            <TextEditor
+              widget={textEditor.widget}
+              viewport={viewport}
+              onChange={(patch) => setTextEditor(prev => prev ? { ...prev, widget: { ...prev.widget, ...patch } } : null)}
+              onCommit={commitTextEditor}
+              onCancel={() => setTextEditor(null)}
+            />
+          )}
+          {revertAnchor && inkRevert && (
+            <div
+              className="absolute z-20 flex items-center gap-1 bg-white shadow-lg border border-slate-200 rounded-full px-2 py-1 text-xs"
+              style={{ left: revertAnchor.x + 8, top: revertAnchor.y + 8 }}
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <FaMagic className="text-teal-600" />
+              <span className="capitalize text-slate-600">{inkRevert.kind}</span>
+              <button className="px-2 py-0.5 rounded-full hover:bg-slate-100 text-teal-700 font-medium" onClick={revertToInk}>
+                Revert to ink
+              </button>
+              <button className="p-1 rounded-full hover:bg-slate-100 text-slate-400" onClick={() => setInkRevert(null)} title="Keep shape">
+                <FaTimes size={10} />
+              </button>
+            </div>
+          )}
+          {inkAnchor && (
+            <div
+              className="absolute z-20 -translate-y-full flex items-center bg-white shadow-lg border border-slate-200 rounded-full px-1 py-1 text-xs"
+              style={{ left: inkAnchor.x + 8, top: inkAnchor.y - 8 }}
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <button className="px-2 py-0.5 rounded-full hover:bg-slate-100 text-teal-700 font-medium flex items-center gap-1" onClick={startHandwritingOcr} title="Convert the selected handwriting into a math text widget">
+                <FaSignature /> To LaTeX
+              </button>
+            </div>
+          )}
           <div className="absolute bottom-4 left-4 text-slate-400 text-xs pointer-events-none select-none bg-white/80 p-2 rounded backdrop-blur">
-            <b>Left Click:</b> Move / Draw • <b>Right Click:</b> Rotate Tool / Draw Compass Arc • <b>Wheel:</b> Rotate
+            <b>Left Click:</b> Move / Draw • <b>Shift+Click / Drag:</b> Multi-select • <b>Del:</b> Delete Selection • <b>Right Click:</b> Rotate Tool / Draw Compass Arc • <b>Wheel:</b> Rotate Tool / Scroll • <b>Ctrl+Wheel:</b> Zoom • <b>Space/Middle Drag:</b> Pan • <b>PgUp/PgDn:</b> Page • <b>Two Fingers:</b> Rotate Tool / Zoom
+          </div>
+
+          {/* Page Strip */}
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10">
+            <PageStrip
+              pages={pages}
+              activePageId={activePage.id}
+              onSelect={goToPage}
+              onAdd={addPage}
+              onDuplicate={duplicateActivePage}
+              onDelete={deletePage}
+              onMove={movePage}
+            />
+          </div>
+
+          {/* Zoom Controls & Minimap */}
+          <div className="absolute bottom-4 right-4 flex flex-col items-end gap-2 z-10">
+            {showMinimap && (
+              <Minimap
+                items={items}
+                viewport={viewport}
+                screenWidth={canvasSize.width}
+                screenHeight={canvasSize.height}
+                onNavigate={centerViewOn}
+              />
+            )}
+            <div className="bg-white/90 backdrop-blur p-1 rounded-lg shadow border border-slate-200 flex items-center gap-1 text-slate-600">
+              <button className="p-1.5 rounded hover:bg-slate-100" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom Out"><FaSearchMinus /></button>
+              <button className="px-1 text-xs w-12 rounded hover:bg-slate-100" onClick={() => setViewport(prev => zoomAt(prev, canvasSize.width / 2, canvasSize.height / 2, 1 / prev.zoom))} title="Reset to 100%">
+                {Math.round(viewport.zoom * 100)}%
+              </button>
+              <button className="p-1.5 rounded hover:bg-slate-100" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom In"><FaSearchPlus /></button>
+              <button className="p-1.5 rounded hover:bg-slate-100" onClick={zoomToFit} title="Zoom to Fit"><FaExpand /></button>
+              <button className={`p-1.5 rounded ${showMinimap ? 'bg-teal-100 text-teal-700' : 'hover:bg-slate-100'}`} onClick={() => setShowMinimap(!showMinimap)} title="Minimap"><FaMap /></button>
+            </div>
           </div>
         </div>
 
@@ -787,13 +2593,23 @@ const App: React.FC = () => {
                     <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
                         <div className="flex justify-between items-center mb-2">
                             <h3 className="font-semibold text-sm text-slate-500 uppercase">1. Input Math</h3>
-                            <button 
-                                onClick={handleAIPaste} 
-                                className="text-xs bg-white border-2 border-teal-100 hover:border-teal-300 text-teal-700 px-3 py-1 rounded-full flex items-center gap-1 font-medium transition"
-                                title="Click here to paste image for AI processing"
-                            >
-                                <FaPaste /> Paste to AI
-                            </button>
+                            <div className="flex gap-1">
+                                <button 
+                                    onClick={startSolvePick} 
+                                    disabled={isProcessing}
+                                    className="text-xs bg-white border-2 border-teal-100 hover:border-teal-300 text-teal-700 px-3 py-1 rounded-full flex items-center gap-1 font-medium transition disabled:opacity-50"
+                                    title="Drag a rectangle or lasso on the board; the answer is written next to it"
+                                >
+                                    <FaCrop /> Solve selection
+                                </button>
+                                <button 
+                                    onClick={handleAIPaste} 
+                                    className="text-xs bg-white border-2 border-teal-100 hover:border-teal-300 text-teal-700 px-3 py-1 rounded-full flex items-center gap-1 font-medium transition"
+                                    title="Click here to paste image for AI processing"
+                                >
+                                    <FaPaste /> Paste to AI
+                                </button>
+                            </div>
                         </div>
                         {pastedImage ? (
                              <div className="relative group">
@@ -832,7 +2648,7 @@ const App: React.FC = () => {
                             disabled={isProcessing || !pastedImage}
                             className="w-full py-2 bg-teal-600 text-white rounded font-semibold hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed flex justify-center items-center gap-2 shadow-md transform active:scale-95 transition"
                         >
-                            {isProcessing ? 'Thinking...' : <><FaRobot /> Solve with Gemini</>}
+                            {isProcessing ? 'Thinking...' : <><FaRobot /> Solve with AI</>}
                         </button>
                     </div>
 
@@ -847,13 +2663,102 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Graph Editor */}
+      {graphEditor && (
+        <GraphEditor
+          widget={graphEditor.widget}
+          onSave={saveGraph}
+          onCancel={() => setGraphEditor(null)}
+        />
+      )}
+
+      {/* TikZ Code Editor */}
+      {tikzEditor && (
+        <TikzEditor
+          widget={tikzEditor}
+          onSave={saveTikz}
+          onCancel={() => setTikzEditor(null)}
+        />
+      )}
+
+      {/* AI Provider */}
+      {showAISettings && (
+        <AISettingsDialog
+          settings={aiSettings}
+          onChange={(next) => setAISettings(saveAISettings(next))}
+          onClose={() => setShowAISettings(false)}
+        />
+      )}
+
+      {/* Units & Calibration */}
+      {showUnitsDialog && (
+        <UnitsDialog
+          settings={unitSettings}
+          onChange={(next) => setUnitSettings(saveUnitSettings(next))}
+          onClose={() => setShowUnitsDialog(false)}
+        />
+      )}
+
+      {/* Export Dialog */}
+      {exportOpen && (
+        <ExportDialog
+          options={exportOptions}
+          onChange={setExportOptions}
+          hasRegion={!!exportRegion}
+          pageCount={pages.length}
+          isExporting={isExporting}
+          onPickRegion={startRegionPick}
+          onExport={handleExport}
+          onClose={() => setExportOpen(false)}
+        />
+      )}
+
+      {/* Handwriting to LaTeX */}
+      {handwriting && (
+        <HandwritingDialog
+          image={handwriting.image}
+          latex={handwriting.latex}
+          status={handwriting.status}
+          error={handwriting.error}
+          onChange={(latex) => setHandwriting(prev => prev && { ...prev, latex })}
+          onRetry={() => recognizeInk(handwriting.image)}
+          onConfirm={confirmHandwriting}
+          onCancel={cancelHandwriting}
+        />
+      )}
+
+      {/* Region Picking Banner */}
+      {regionPick && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 bg-teal-600 text-white text-sm px-4 py-2 rounded-full shadow-lg z-40 flex items-center gap-3">
+          {regionPick === 'solve'
+            ? `Drag ${regionShape === 'lasso' ? 'a lasso' : 'a rectangle'} around the problem to solve`
+            : 'Drag a rectangle on the board to select the region'}
+          {regionPick === 'solve' && (
+            <div className="flex bg-white/20 rounded-full p-0.5 text-xs">
+              {(['rect', 'lasso'] as const).map(shape => (
+                <button
+                  key={shape}
+                  onClick={() => setRegionShape(shape)}
+                  className={`px-2 py-0.5 rounded-full ${regionShape === shape ? 'bg-white text-teal-700' : 'hover:bg-white/20'}`}
+                >
+                  {shape === 'rect' ? 'Rectangle' : 'Lasso'}
+                </button>
+              ))}
+            </div>
+          )}
+          <button onClick={cancelRegionPick} className="bg-white/20 hover:bg-white/30 px-2 py-0.5 rounded-full text-xs">Cancel (Esc)</button>
+        </div>
+      )}
+
       {/* TikZ Modal */}
       {tikzModalOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
-          <div className="bg-white rounded-xl shadow-2xl w-[500px] p-6">
+          <div className="bg-white rounded-xl shadow-2xl w-[560px] max-h-[90vh] overflow-y-auto p-6">
             <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
               <FaChartLine className="text-teal-600"/> Generate Math Diagram (TikZ)
             </h2>
+
+            <TikzRendererPanel />
             
             <div className="mb-4">
                 <label className="block text-sm font-medium text-slate-700 mb-1">Diagram Type</label>
@@ -881,9 +2786,26 @@ const App: React.FC = () => {
                 />
             </div>
 
+            {tikzFailure && (
+                <div className="mb-4 text-sm">
+                    <p className="text-red-600 font-medium">
+                        {tikzFailure.log ? 'The diagram still did not compile after all repair attempts.' : tikzFailure.message}
+                    </p>
+                    {tikzFailure.log && (
+                        <pre className="mt-2 max-h-48 overflow-auto text-xs bg-red-50 text-red-700 p-2 rounded whitespace-pre-wrap">{tikzFailure.log}</pre>
+                    )}
+                    {tikzFailure.code && (
+                        <details className="mt-2">
+                            <summary className="cursor-pointer text-slate-600">Last code</summary>
+                            <pre className="mt-1 max-h-48 overflow-auto text-xs bg-slate-50 p-2 rounded whitespace-pre-wrap">{tikzFailure.code}</pre>
+                        </details>
+                    )}
+                </div>
+            )}
+
             <div className="flex justify-end gap-3">
                 <button 
-                    onClick={() => setTikzModalOpen(false)}
+                    onClick={() => { setTikzModalOpen(false); setTikzFailure(null); }}
                     className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded"
                 >
                     Cancel
@@ -893,7 +2815,8 @@ const App: React.FC = () => {
                     disabled={isProcessing}
                     className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50 flex items-center gap-2"
                 >
-                    {isProcessing ? 'Generating...' : 'Generate & Add to Board'}
+                    {!isProcessing ? 'Generate & Add to Board' : !tikzProgress ? 'Generating...' :
+                        `${tikzProgress.phase === 'repairing' ? 'Repairing' : 'Compiling'} (attempt ${tikzProgress.attempt}/${tikzProgress.maxAttempts})...`}
                 </button>
             </div>
           </div>
@@ -910,7 +2833,7 @@ const App: React.FC = () => {
                 <h2 className="text-xl font-bold flex items-center gap-2">
                     <FaCalculator /> Math Solution Result
                 </h2>
-                <button onClick={() => setShowResultModal(false)} className="text-white hover:text-red-200 text-xl transition">
+                <button onClick={() => { stopSolve(); setShowResultModal(false); }} className="text-white hover:text-red-200 text-xl transition">
                     <FaTimes />
                 </button>
             </div>
@@ -924,7 +2847,7 @@ const App: React.FC = () => {
                         <span className="w-2 h-4 bg-green-500 rounded-sm"></span> OCR Text
                     </h3>
                     <div className="flex-1 bg-white border border-slate-200 rounded-lg p-4 text-xs font-mono text-slate-600 whitespace-pre-wrap shadow-sm overflow-auto">
-                        {ocrResult.ocr}
+                        {ocrResult.ocr || (solveStatus === 'streaming' ? <span className="text-slate-400 italic">Reading the image...</span> : null)}
                     </div>
                 </div>
 
@@ -934,24 +2857,32 @@ const App: React.FC = () => {
                         <span className="w-2 h-4 bg-blue-500 rounded-sm"></span> Detailed Solution
                     </h3>
                     <div className="flex-1 bg-white border border-slate-200 rounded-lg p-6 text-slate-800 shadow-sm overflow-auto">
-                         {/* Math content container */}
-                         <div 
-                            className="prose prose-slate max-w-none"
-                            dangerouslySetInnerHTML={{ 
-                                __html: ocrResult.solution
-                                    .replace(/\n/g, '<br/>')
-                                    // Basic markdown bold support if model outputs it
-                                    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                            }} 
-                        />
+                         <SolutionSteps
+                            key={solveRun}
+                            result={ocrResult}
+                            streaming={solveStatus === 'streaming'}
+                            onInsertStep={(i) => insertSolutionText([stepToBoardText(ocrResult.steps[i], i, SOLVE_REGION.wrapChars)])}
+                            onInsertAll={() => insertSolutionText(solutionToBoardBlocks(ocrResult, SOLVE_REGION.wrapChars))}
+                         />
+                         {solveStatus === 'stopped' && (
+                            <p className="mt-2 text-xs text-amber-600 italic">Stopped: the solution above is incomplete.</p>
+                         )}
                     </div>
                 </div>
             </div>
 
             {/* Footer */}
-            <div className="p-4 border-t bg-white flex justify-end">
+            <div className="p-4 border-t bg-white flex justify-end gap-3">
+                {solveStatus === 'streaming' && (
+                    <button
+                        onClick={stopSolve}
+                        className="px-6 py-2 border border-red-300 text-red-600 rounded hover:bg-red-50 font-medium transition"
+                    >
+                        Stop
+                    </button>
+                )}
                 <button 
-                    onClick={() => setShowResultModal(false)}
+                    onClick={() => { stopSolve(); setShowResultModal(false); }}
                     className="px-6 py-2 bg-slate-800 text-white rounded hover:bg-slate-900 font-medium transition"
                 >
                     Close
@@ -965,18 +2896,34 @@ const App: React.FC = () => {
   );
 };
 
+const HeaderBtn: React.FC<{
+    icon: React.ReactNode;
+    onClick: () => void;
+    label: string;
+}> = ({ icon, onClick, label }) => (
+    <button
+        onClick={onClick}
+        title={label}
+        className="w-8 h-8 rounded flex items-center justify-center text-teal-50 hover:bg-teal-700 transition"
+    >
+        {icon}
+    </button>
+);
+
 const ToolBtn: React.FC<{
     icon: React.ReactNode;
     active?: boolean;
     onClick: () => void;
     label: string;
     color?: string;
-}> = ({ icon, active, onClick, label, color }) => (
+    disabled?: boolean;
+}> = ({ icon, active, onClick, label, color, disabled }) => (
     <button
         onClick={onClick}
         title={label}
+        disabled={disabled}
         className={`
-            w-10 h-10 rounded-lg flex items-center justify-center text-xl transition-all
+            w-10 h-10 rounded-lg flex items-center justify-center text-xl transition-all disabled:opacity-30 disabled:cursor-not-allowed
             ${active 
                 ? 'bg-teal-600 text-white shadow-md scale-105' 
                 : `text-slate-500 hover:bg-slate-100 ${color || ''}`}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AISettings, OpenAISettings } from '../types';
+import { AI_PROVIDERS } from '../services/aiService';
+import { FaRobot } from 'react-icons/fa';
+
+interface AISettingsDialogProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_NOTES: Record<AISettings['provider'], string> = {
+  gemini: 'Uses the GEMINI_API_KEY the app was built with.',
+  openai: 'Any server with an OpenAI-style /chat/completions endpoint, e.g. http://localhost:11434/v1 for Ollama. Solving needs a model that reads images.',
+  mock: 'Canned answers without network access, for demos and tests.'
+};
+
+const AISettingsDialog: React.FC<AISettingsDialogProps> = ({ settings, onChange, onClose }) => {
+  const setOpenAI = (patch: Partial<OpenAISettings>) => onChange({ ...settings, openai: { ...settings.openai, ...patch } });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-[560px] max-w-[95vw] p-6">
+        <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <FaRobot className="text-teal-600"/> AI Provider
+        </h2>
+
+        <div className="mb-4">
+          <div className="flex gap-2">
+            {AI_PROVIDERS.map(provider => (
+              <button
+                key={provider.id}
+                onClick={() => onChange({ ...settings, provider: provider.id })}
+                className={`flex-1 py-2 text-sm border rounded ${settings.provider === provider.id ? 'bg-teal-50 border-teal-500 text-teal-700 font-medium' : 'hover:bg-slate-50'}`}
+              >
+                {provider.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">{PROVIDER_NOTES[settings.provider]}</p>
+        </div>
+
+        {settings.provider === 'openai' && (
+          <div className="mb-4 space-y-2">
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-700 mb-1">Base URL</span>
+              <input
+                value={settings.openai.baseUrl}
+                onChange={(e) => setOpenAI({ baseUrl: e.target.value })}
+                className="w-full border rounded px-2 py-1 text-sm font-mono"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-700 mb-1">Model</span>
+              <input
+                value={settings.openai.model}
+                onChange={(e) => setOpenAI({ model: e.target.value })}
+                className="w-full border rounded px-2 py-1 text-sm font-mono"
+              />
+            </label>
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-700 mb-1">API key (optional for local servers)</span>
+              <input
+                type="password"
+                value={settings.openai.apiKey}
+                onChange={(e) => setOpenAI({ apiKey: e.target.value })}
+                className="w-full border rounded px-2 py-1 text-sm font-mono"
+              />
+            </label>
+            <p className="text-xs text-slate-500">Settings are stored in this browser only.</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsDialog;
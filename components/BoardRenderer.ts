@@ -0,0 +1,58 @@
+import { CanvasItem, PageBackground, UnitSettings, Viewport } from "../types";
+import { drawItem, drawPageBackground, getVisibleWorldBounds } from "./CanvasUtils";
+import { getSpatialIndex } from "./SpatialIndex";
+
+// Everything that decides what the committed board looks like on screen
+export interface BoardScene {
+  items: CanvasItem[];
+  background: PageBackground;
+  viewport: Viewport;
+  width: number; // screen px
+  height: number;
+  hiddenId: string | null; // item drawn by an overlay instead (e.g. the text being edited)
+  assetVersion: number; // bumped when images / formulas finish loading
+  units: UnitSettings; // ruler and set square scales
+}
+
+const sameScene = (a: BoardScene, b: BoardScene) =>
+  a.items === b.items && a.background === b.background && a.viewport === b.viewport &&
+  a.width === b.width && a.height === b.height && a.hiddenId === b.hiddenId && a.assetVersion === b.assetVersion && a.units === b.units;
+
+// Paints the background and only the items inside the visible area
+export const drawBoardScene = (ctx: CanvasRenderingContext2D, scene: BoardScene) => {
+  const { viewport } = scene;
+  const visible = getVisibleWorldBounds(viewport, scene.width, scene.height);
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, scene.width, scene.height);
+  ctx.setTransform(viewport.zoom, 0, 0, viewport.zoom, viewport.x, viewport.y);
+
+  drawPageBackground(ctx, scene.background, visible, viewport.zoom);
+  // Lines and rays are always in the index's result: they can cross the view without their anchors being in it
+  const inView = new Set(getSpatialIndex(scene.items).query(visible));
+  scene.items.forEach(item => {
+    if (item.id === scene.hiddenId) return;
+    if (inView.has(item)) drawItem(ctx, item);
+  });
+};
+
+// Offscreen copy of the committed board. Live strokes, marquees and other overlays are
+// drawn on top of it each frame, so the board itself is only repainted when the scene changes.
+export const createSceneLayer = () => {
+  let canvas: HTMLCanvasElement | null = null;
+  let last: BoardScene | null = null;
+
+  const render = (scene: BoardScene): HTMLCanvasElement => {
+    if (canvas && last && sameScene(last, scene)) return canvas;
+
+    if (!canvas) canvas = document.createElement('canvas');
+    if (canvas.width !== scene.width) canvas.width = scene.width;
+    if (canvas.height !== scene.height) canvas.height = scene.height;
+    const ctx = canvas.getContext('2d');
+    if (ctx) drawBoardScene(ctx, scene);
+    last = scene;
+    return canvas;
+  };
+
+  return { render };
+};
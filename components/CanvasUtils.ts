@@ -1,19 +1,52 @@
 
-import { CanvasItem, Stroke, Widget, Point } from "../types";
-import { TOOL_DEFAULTS } from "../constants";
+import { CanvasItem, Stroke, Widget, Point, Viewport, Bounds, PageBackground, GeometryObject, ShapeItem, StrokeStyle } from "../types";
+import { TOOL_DEFAULTS, PROTRACTOR_DEFAULT_ANGLE, PROTRACTOR_RAY_LENGTH, COMPASS_MIN_RADIUS, COMPASS_LEGACY_RADIUS, COMPASS_MAX_OPENING, COMPASS_ARC_STEP, GEOMETRY_POINT_RADIUS, GRID_STEP, MIN_ZOOM, MAX_ZOOM, FIT_PADDING, PRESSURE_WIDTH_MIN, PRESSURE_WIDTH_RANGE, SHAPE_HANDLE_SIZE, SHAPE_DEFAULTS, GRAPH_DEFAULTS, GRAPH_MAX_SAMPLES } from "../constants";
+import { getTextBox, getTextStyle, layoutText } from "./MathText";
+import { closestOnGeometry, getCircleRadius, getLineEnds, isGeometry, isGeometryPoint } from "./Geometry";
+import { formatLength, getScaleTicks, getUnitSettings, UNIT_SCALES } from "./Units";
+import { getArrowHead, getEllipseGeometry, getShapeOutline, isClosedShape, isShape } from "./ShapeUtils";
+import { compileCurve, describeCurve, findPointsOfInterest, formatGraphNumber, sampleCurve } from "./GraphUtils";
 
-export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
-  if (stroke.points.length < 2) return;
-  
+export const getPressureWidth = (width: number, pressure = 0.5) =>
+  width * (PRESSURE_WIDTH_MIN + pressure * PRESSURE_WIDTH_RANGE);
+
+// Variable-width stroke: each smoothed segment uses the pressure at its control point
+const drawPressureStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+  const pts = stroke.points;
   ctx.save();
-  ctx.beginPath();
-  ctx.lineWidth = stroke.width;
   ctx.lineCap = 'round';
   ctx.lineJoin = 'round';
   ctx.strokeStyle = stroke.color;
 
-  // Handle Styles
-  const style = stroke.strokeStyle || 'solid';
+  let startX = pts[0].x;
+  let startY = pts[0].y;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const p1 = pts[i];
+    const p2 = pts[i + 1];
+    const midX = (p1.x + p2.x) / 2;
+    const midY = (p1.y + p2.y) / 2;
+    ctx.beginPath();
+    ctx.lineWidth = getPressureWidth(stroke.width, p1.pressure);
+    ctx.moveTo(startX, startY);
+    ctx.quadraticCurveTo(p1.x, p1.y, midX, midY);
+    ctx.stroke();
+    startX = midX;
+    startY = midY;
+  }
+
+  const last = pts[pts.length - 1];
+  ctx.beginPath();
+  ctx.lineWidth = getPressureWidth(stroke.width, last.pressure);
+  ctx.moveTo(startX, startY);
+  ctx.lineTo(last.x, last.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Dashes, dots and the translucent marker (shared by strokes and shapes)
+const applyLineStyle = (ctx: CanvasRenderingContext2D, style: StrokeStyle) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
   if (style === 'dashed') {
     ctx.setLineDash([10, 10]);
   } else if (style === 'dotted') {
@@ -25,9 +58,34 @@ export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
   } else {
     ctx.setLineDash([]);
   }
+};
+
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+  if (stroke.points.length < 2) return;
+
+  // Pressure only modulates solid ink; dashes and the translucent marker would show segment seams
+  const style = stroke.strokeStyle || 'solid';
+  if (style === 'solid' && stroke.points[0].pressure !== undefined) {
+    drawPressureStroke(ctx, stroke);
+    return;
+  }
+  
+  ctx.save();
+  ctx.beginPath();
+  ctx.lineWidth = stroke.width;
+  ctx.strokeStyle = stroke.color;
+  applyLineStyle(ctx, style);
 
   ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
 
+  // Recognized shapes keep their corners sharp
+  if (stroke.shape) {
+    stroke.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+    ctx.restore();
+    return;
+  }
+
   // Smooth curve
   for (let i = 1; i < stroke.points.length - 1; i++) {
     const p1 = stroke.points[i];
@@ -43,6 +101,8 @@ export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
   ctx.restore();
 };
 
+const TICK_LENGTHS = { minor: 5, mid: 9, major: 15 };
+
 export const drawRuler = (ctx: CanvasRenderingContext2D, r: Widget) => {
   ctx.save();
   ctx.translate(r.x, r.y);
@@ -59,31 +119,33 @@ export const drawRuler = (ctx: CanvasRenderingContext2D, r: Widget) => {
   ctx.fillRect(-w/2, -h/2, w, h);
   ctx.strokeRect(-w/2, -h/2, w, h);
 
-  // Ticks
+  // Ticks in the display's calibrated unit
   ctx.fillStyle = '#000';
   ctx.strokeStyle = '#000';
+  ctx.lineWidth = 0.75;
   ctx.font = '10px sans-serif';
   ctx.textAlign = 'center';
   
   const startX = -w/2 + 10;
   const endX = w/2 - 10;
-  const length = endX - startX;
-  const step = 10; // px per tick
 
-  for (let i = 0; i <= length / step; i++) {
-    const x = startX + i * step;
-    const isMajor = i % 5 === 0;
-    const tickH = isMajor ? 15 : 8;
+  for (const tick of getScaleTicks(endX - startX)) {
+    const x = startX + tick.offset;
+    const tickH = TICK_LENGTHS[tick.size];
     
     ctx.beginPath();
     ctx.moveTo(x, -h/2);
     ctx.lineTo(x, -h/2 + tickH);
     ctx.stroke();
 
-    if (isMajor) {
-      ctx.fillText((i).toString(), x, -h/2 + 25);
+    if (tick.label) {
+      ctx.fillText(tick.label, x, -h/2 + 25);
     }
   }
+
+  ctx.textAlign = 'right';
+  ctx.font = '9px sans-serif';
+  ctx.fillText(UNIT_SCALES[getUnitSettings().unit].label, endX, h/2 - 6);
   ctx.restore();
 };
 
@@ -104,25 +166,61 @@ export const drawProtractor = (ctx: CanvasRenderingContext2D, p: Widget) => {
   ctx.lineWidth = p.selected ? 2 : 1;
   ctx.stroke();
   
-  // Ticks
+  // Ticks: every degree, longer every 5 and 10
+  ctx.strokeStyle = '#475569';
+  ctx.lineWidth = 0.75;
+  ctx.beginPath();
+  for (let deg = 0; deg <= 180; deg++) {
+    const rad = Math.PI + (deg * Math.PI) / 180; // 0 at the left end
+    const len = deg % 10 === 0 ? 12 : (deg % 5 === 0 ? 8 : 4);
+    ctx.moveTo(Math.cos(rad) * r, Math.sin(rad) * r);
+    ctx.lineTo(Math.cos(rad) * (r - len), Math.sin(rad) * (r - len));
+  }
+  ctx.stroke();
+
+  // Outer scale counts from the left end, inner scale from the right end
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
   for (let deg = 0; deg <= 180; deg += 10) {
-    const rad = (deg * Math.PI) / 180;
-    const renderRad = Math.PI - rad;
-    
-    const outerR = r;
-    const innerR = r - (deg % 30 === 0 ? 15 : 8);
-    
-    const xOut = Math.cos(Math.PI + rad) * outerR; 
-    const yOut = Math.sin(Math.PI + rad) * outerR;
-    
-    const xIn = Math.cos(Math.PI + rad) * innerR;
-    const yIn = Math.sin(Math.PI + rad) * innerR;
-    
-    ctx.beginPath();
-    ctx.moveTo(xOut, yOut); 
-    ctx.lineTo(xIn, yIn);
-    ctx.stroke();
+    const rad = Math.PI + (deg * Math.PI) / 180;
+    ctx.font = '9px sans-serif';
+    ctx.fillStyle = '#1e293b';
+    ctx.fillText(`${deg}`, Math.cos(rad) * (r - 20), Math.sin(rad) * (r - 20));
+    ctx.font = '8px sans-serif';
+    ctx.fillStyle = '#b91c1c';
+    ctx.fillText(`${180 - deg}`, Math.cos(rad) * (r - 32), Math.sin(rad) * (r - 32));
   }
+
+  // Vertex
+  ctx.strokeStyle = '#475569';
+  ctx.beginPath();
+  ctx.moveTo(-6, 0);
+  ctx.lineTo(6, 0);
+  ctx.moveTo(0, -6);
+  ctx.lineTo(0, 0);
+  ctx.stroke();
+
+  // Measuring arm with the live angle
+  const arm = getProtractorArm(p);
+  const armRad = (arm.angle * Math.PI) / 180;
+  ctx.strokeStyle = '#0d9488';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(arm.local.x, arm.local.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(0, 0, 24, 0, -armRad, true);
+  ctx.stroke();
+
+  ctx.fillStyle = '#0d9488';
+  ctx.beginPath();
+  ctx.arc(arm.local.x, arm.local.y, 6, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.font = 'bold 12px sans-serif';
+  ctx.fillText(`${arm.angle}°`, Math.cos(armRad / 2) * 44, -Math.sin(armRad / 2) * 44);
   
   ctx.restore();
 };
@@ -132,8 +230,7 @@ export const drawCompass = (ctx: CanvasRenderingContext2D, c: Widget) => {
     ctx.translate(c.x, c.y);
     ctx.rotate((c.angle * Math.PI) / 180);
     
-    const height = c.height || 150;
-    const spread = 40; // Half width of opening
+    const { radius, spread, drop } = getCompassGeometry(c);
     
     ctx.strokeStyle = c.selected ? '#ef4444' : '#475569';
     ctx.lineWidth = c.selected ? 3 : 2;
@@ -143,13 +240,13 @@ export const drawCompass = (ctx: CanvasRenderingContext2D, c: Widget) => {
     // Left Leg (Needle)
     ctx.beginPath();
     ctx.moveTo(0, 0); // Hinge
-    ctx.lineTo(-spread, height);
+    ctx.lineTo(-spread, drop);
     ctx.stroke();
 
     // Right Leg (Pencil)
     ctx.beginPath();
     ctx.moveTo(0, 0); // Hinge
-    ctx.lineTo(spread, height);
+    ctx.lineTo(spread, drop);
     ctx.stroke();
 
     // Hinge head
@@ -162,23 +259,32 @@ export const drawCompass = (ctx: CanvasRenderingContext2D, c: Widget) => {
     // Needle Tip
     ctx.fillStyle = '#000';
     ctx.beginPath();
-    ctx.arc(-spread, height, 3, 0, Math.PI * 2);
+    ctx.arc(-spread, drop, 3, 0, Math.PI * 2);
     ctx.fill();
 
-    // Pencil Tip (Right)
+    // Pencil Tip (Right), also the handle for opening / closing the compass
     ctx.fillStyle = '#ef4444';
     ctx.beginPath();
-    ctx.arc(spread, height, 4, 0, Math.PI * 2);
+    ctx.arc(spread, drop, c.selected ? 6 : 4, 0, Math.PI * 2);
     ctx.fill();
 
-    // Dashed arc hint
+    // Dashed circle the pencil would draw
     ctx.beginPath();
     ctx.strokeStyle = '#cbd5e1';
     ctx.setLineDash([5, 5]);
     ctx.lineWidth = 1;
-    ctx.arc(-spread, height, spread * 2, 0, Math.PI, true); // Just a visual hint
+    ctx.arc(-spread, drop, radius, 0, Math.PI * 2);
     ctx.stroke();
 
+    // Live radius readout
+    if (c.selected) {
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#0f172a';
+        ctx.font = '12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(`r = ${Math.round(radius)} px (${formatLength(radius)})`, 0, drop + 22);
+    }
+
     ctx.restore();
 };
 
@@ -202,27 +308,67 @@ export const drawSetSquare = (ctx: CanvasRenderingContext2D, t: Widget) => {
     ctx.lineWidth = 2;
     ctx.stroke();
 
-    // Ruler markings on sides
+    // Ruler markings on both legs, zero at the right angle
+    ctx.strokeStyle = '#334155';
+    ctx.lineWidth = 0.75;
     ctx.beginPath();
-    for(let i=0; i<w; i+=20) {
-        ctx.moveTo(i, 0);
-        ctx.lineTo(i, 10);
+    const ticksW = getScaleTicks(w - 10);
+    const ticksH = getScaleTicks(h - 10);
+    for (const tick of ticksW) {
+        ctx.moveTo(tick.offset, 0);
+        ctx.lineTo(tick.offset, TICK_LENGTHS[tick.size] * 0.7);
     }
-    for(let i=0; i<h; i+=20) {
-        ctx.moveTo(0, i);
-        ctx.lineTo(10, i);
+    for (const tick of ticksH) {
+        ctx.moveTo(0, tick.offset);
+        ctx.lineTo(TICK_LENGTHS[tick.size] * 0.7, tick.offset);
     }
     ctx.stroke();
 
+    ctx.fillStyle = '#334155';
+    ctx.font = '8px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ticksW.forEach(tick => { if (tick.label && tick.offset > 0) ctx.fillText(tick.label, tick.offset, 17); });
+    ticksH.forEach(tick => { if (tick.label && tick.offset > 0) ctx.fillText(tick.label, 17, tick.offset); });
+
     ctx.restore();
 };
 
+// Decoded images, shared by the board, thumbnails and exports
+const imageCache = new Map<string, HTMLImageElement>();
+const imageListeners = new Set<() => void>();
+
+// Called when a newly requested image has decoded, so cached layers can be repainted
+export const subscribeImageReady = (listener: () => void) => {
+    imageListeners.add(listener);
+    return () => { imageListeners.delete(listener); };
+};
+
+export const getImage = (src: string): HTMLImageElement => {
+    let img = imageCache.get(src);
+    if (!img) {
+        img = new Image();
+        img.onload = () => imageListeners.forEach(listener => listener());
+        img.src = src;
+        imageCache.set(src, img);
+    }
+    return img;
+};
+
+// Resolves once every image widget and typeset formula in `items` can be drawn
+export const preloadImages = async (items: CanvasItem[]) => {
+    const images = items.filter(i => (i.type === 'image' || i.type === 'tikz') && (i as Widget).src).map(i => getImage((i as Widget).src as string));
+    items.filter(i => i.type === 'text').forEach(t => {
+        layoutText(t as Widget).runs.forEach(run => { if (run.math) images.push(run.math.img); });
+    });
+    await Promise.all(images.map(img => img.decode().catch(() => undefined)));
+};
+
 export const drawImageWidget = (ctx: CanvasRenderingContext2D, imgW: Widget) => {
     if (!imgW.src) return;
-    const img = new Image();
-    img.src = imgW.src;
+    const img = getImage(imgW.src);
     
-    if (img.complete) {
+    if (img.complete && img.naturalWidth > 0) {
         ctx.save();
         ctx.translate(imgW.x, imgW.y);
         ctx.rotate((imgW.angle * Math.PI) / 180);
@@ -248,25 +394,214 @@ export const drawTextWidget = (ctx: CanvasRenderingContext2D, t: Widget) => {
     ctx.translate(t.x, t.y);
     ctx.rotate((t.angle * Math.PI) / 180);
     
-    ctx.font = '18px sans-serif';
-    ctx.fillStyle = t.selected ? '#ef4444' : '#000';
-    ctx.fillText(t.text, 0, 0);
+    const { font, color } = getTextStyle(t);
+    const layout = layoutText(t);
+    ctx.font = font;
+    ctx.fillStyle = color;
+
+    for (const run of layout.runs) {
+        if (run.kind === 'text') {
+            ctx.fillText(run.text, run.x, run.y);
+        } else if (run.math && run.math.img.complete) {
+            const m = run.math;
+            ctx.drawImage(m.img, run.x, run.y - (m.height - m.descent), m.width, m.height);
+        } else {
+            ctx.fillText(`$${run.text}$`, run.x, run.y);
+        }
+    }
     
     if (t.selected) {
-        const m = ctx.measureText(t.text);
+        const box = getTextBox(t);
         ctx.strokeStyle = '#ef4444';
-        ctx.strokeRect(-5, -18, m.width + 10, 24);
+        ctx.strokeRect(box.x, box.y, box.w, box.h);
     }
     ctx.restore();
 };
 
+// --- GRAPH ---
+
+// Every `step`-th multiple of `tick` within [min, max], thinned so marks stay at least `minGap` local px apart
+const graphTicks = (min: number, max: number, tick: number, length: number, minGap: number) => {
+  if (!(tick > 0) || !(max > min)) return [];
+  const every = Math.max(1, Math.ceil((minGap * (max - min)) / (tick * length)));
+  const step = tick * every;
+  const ticks: number[] = [];
+  for (let k = Math.ceil(min / step); k * step <= max + step * 1e-9; k++) ticks.push(k * step);
+  return ticks;
+};
+
+export const drawGraph = (ctx: CanvasRenderingContext2D, g: Widget) => {
+  const spec = g.graph;
+  if (!spec) return;
+  const box = getWidgetLocalBox(g);
+  const pad = 8;
+  const left = box.x + pad;
+  const top = box.y + pad;
+  const pw = box.w - pad * 2;
+  const ph = box.h - pad * 2;
+  const toX = (x: number) => left + ((x - spec.xMin) / (spec.xMax - spec.xMin)) * pw;
+  const toY = (y: number) => top + ph - ((y - spec.yMin) / (spec.yMax - spec.yMin)) * ph;
+
+  ctx.save();
+  ctx.translate(g.x, g.y);
+  ctx.rotate((g.angle * Math.PI) / 180);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(box.x, box.y, box.w, box.h);
+  ctx.strokeStyle = g.selected ? '#ef4444' : '#cbd5e1';
+  ctx.lineWidth = g.selected ? 2 : 1;
+  ctx.strokeRect(box.x, box.y, box.w, box.h);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(left, top, pw, ph);
+  ctx.clip();
+
+  const xTicks = graphTicks(spec.xMin, spec.xMax, spec.xTick, pw, 6);
+  const yTicks = graphTicks(spec.yMin, spec.yMax, spec.yTick, ph, 6);
+  if (spec.showGrid) {
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    xTicks.forEach(x => { ctx.moveTo(toX(x), top); ctx.lineTo(toX(x), top + ph); });
+    yTicks.forEach(y => { ctx.moveTo(left, toY(y)); ctx.lineTo(left + pw, toY(y)); });
+    ctx.stroke();
+  }
+
+  // Axes through the origin, or along the nearest edge when it is out of view
+  const axisX = toX(Math.max(spec.xMin, Math.min(spec.xMax, 0)));
+  const axisY = toY(Math.max(spec.yMin, Math.min(spec.yMax, 0)));
+  ctx.strokeStyle = '#475569';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(left, axisY); ctx.lineTo(left + pw, axisY);
+  ctx.moveTo(axisX, top); ctx.lineTo(axisX, top + ph);
+  ctx.stroke();
+
+  ctx.fillStyle = '#475569';
+  ctx.font = '10px sans-serif';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  graphTicks(spec.xMin, spec.xMax, spec.xTick, pw, 36).forEach(x => {
+    ctx.moveTo(toX(x), axisY - 3); ctx.lineTo(toX(x), axisY + 3);
+    if (Math.abs(toX(x) - axisX) > 1) ctx.fillText(formatGraphNumber(x), toX(x), Math.min(axisY + 4, top + ph - 12));
+  });
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  graphTicks(spec.yMin, spec.yMax, spec.yTick, ph, 20).forEach(y => {
+    ctx.moveTo(axisX - 3, toY(y)); ctx.lineTo(axisX + 3, toY(y));
+    if (Math.abs(toY(y) - axisY) > 1) ctx.fillText(formatGraphNumber(y), Math.max(axisX - 5, left + 24), toY(y));
+  });
+  ctx.stroke();
+
+  // Sample density follows the on-screen size, in powers of two so zooming doesn't resample every frame
+  const m = ctx.getTransform();
+  const screenWidth = pw * Math.hypot(m.a, m.b);
+  const samples = Math.min(GRAPH_MAX_SAMPLES, 2 ** Math.ceil(Math.log2(Math.max(64, screenWidth))));
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  spec.curves.forEach(curve => {
+    ctx.strokeStyle = curve.color;
+    ctx.beginPath();
+    sampleCurve(curve, spec, samples).forEach(run => {
+      run.forEach((p, i) => (i === 0 ? ctx.moveTo(toX(p.x), toY(p.y)) : ctx.lineTo(toX(p.x), toY(p.y))));
+    });
+    ctx.stroke();
+  });
+
+  if (spec.showPoints) {
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    findPointsOfInterest(spec).forEach(p => {
+      const px = toX(p.x);
+      const py = toY(p.y);
+      ctx.beginPath();
+      ctx.arc(px, py, 3.5, 0, Math.PI * 2);
+      ctx.fillStyle = p.color;
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke();
+      ctx.fillStyle = '#334155';
+      ctx.fillText(`(${formatGraphNumber(p.x)}, ${formatGraphNumber(p.y)})`, px + 5, py - 3);
+    });
+  }
+  ctx.restore();
+
+  // Legend: formula per curve, or what is wrong with it
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const lines = spec.curves.map(curve => {
+    const error = compileCurve(curve).error;
+    return { curve, text: error ? `${describeCurve(curve)}: ${error}` : describeCurve(curve), error };
+  });
+  const legendW = Math.min(pw - 8, Math.max(...lines.map(l => ctx.measureText(l.text).width), 0) + 28);
+  if (lines.length) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.fillRect(left + 4, top + 4, legendW, lines.length * 16 + 6);
+  }
+  lines.forEach(({ curve, text, error }, i) => {
+    const y = top + 15 + i * 16;
+    ctx.fillStyle = curve.color;
+    ctx.fillRect(left + 9, y - 1, 14, 3);
+    ctx.fillStyle = error ? '#dc2626' : '#1e293b';
+    ctx.fillText(text, left + 28, y, legendW - 28);
+  });
+  ctx.restore();
+};
+
 // --- SNAPPING UTILS ---
 
+// Protractor: the vertex, then whichever is closer of the baseline and the arm's ray
+const getProtractorSnap = (p: Widget, x: number, y: number, threshold: number): Point | null => {
+  const r = p.radius || TOOL_DEFAULTS.PROTRACTOR.radius;
+  const rot = (p.angle * Math.PI) / 180;
+  const local = worldToLocal(p, x, y);
+  if (Math.hypot(local.x, local.y) < threshold) return { x: p.x, y: p.y };
+
+  let best: { dist: number, x: number, y: number } | null = null;
+  if (Math.abs(local.x) <= r + threshold) {
+    best = { dist: Math.abs(local.y), x: local.x, y: 0 };
+  }
+
+  const rad = ((p.measureAngle ?? PROTRACTOR_DEFAULT_ANGLE) * Math.PI) / 180;
+  const dir = { x: Math.cos(rad), y: -Math.sin(rad) };
+  const along = local.x * dir.x + local.y * dir.y;
+  if (along >= 0 && along <= r * PROTRACTOR_RAY_LENGTH) {
+    const dist = Math.abs(local.x * dir.y - local.y * dir.x);
+    if (!best || dist < best.dist) best = { dist, x: dir.x * along, y: dir.y * along };
+  }
+
+  return best && best.dist < threshold ? convertLocalToWorld(best.x, best.y, p.x, p.y, rot) : null;
+};
+
 export const getSnapPoint = (x: number, y: number, items: CanvasItem[], threshold = 20): Point | null => {
+  // Constructed points win over edges
+  for (const item of items) {
+    if (!isGeometry(item) || !isGeometryPoint(item) || !item.defined || item.visible === false) continue;
+    const p = item.anchors[0];
+    if (Math.hypot(p.x - x, p.y - y) < threshold) return { x: p.x, y: p.y };
+  }
+
   for (const item of items) {
     // Ignore hidden widgets
     if ((item as Widget).visible === false) continue;
 
+    if (item.type === 'protractor') {
+      const snapped = getProtractorSnap(item as Widget, x, y, threshold);
+      if (snapped) return snapped;
+    }
+
+    if (isGeometry(item) && item.defined && !isGeometryPoint(item)) {
+      // Draw along constructed lines and circles
+      const snapped = closestOnGeometry(item, { x, y });
+      if (Math.hypot(snapped.x - x, snapped.y - y) < threshold / 2) return snapped;
+    }
+
     if (item.type === 'ruler' || item.type === 'triangle') {
       const widget = item as Widget;
       const w = widget.width || 100;
@@ -319,21 +654,52 @@ export const getSnapPoint = (x: number, y: number, items: CanvasItem[], threshol
   return null;
 };
 
+// --- COMPASS GEOMETRY ---
+
+export const getCompassMaxRadius = (c: Widget) => 2 * (c.height || TOOL_DEFAULTS.COMPASS.height) * COMPASS_MAX_OPENING;
+
+// Legs keep their length, so opening the compass lowers the hinge
+export const getCompassGeometry = (c: Widget) => {
+    const leg = c.height || TOOL_DEFAULTS.COMPASS.height;
+    // New compasses always get a radius; one without it was saved with the old fixed opening
+    const radius = Math.max(COMPASS_MIN_RADIUS, Math.min(c.radius || COMPASS_LEGACY_RADIUS, getCompassMaxRadius(c)));
+    const spread = radius / 2; // Half width of opening
+    return { radius, spread, drop: Math.sqrt(leg * leg - spread * spread) };
+};
+
 // Get the Needle and Pencil Tip world coordinates for the Compass
 export const getCompassPoints = (c: Widget) => {
-    const height = c.height || 150;
-    const spread = 40; 
+    const { spread, drop } = getCompassGeometry(c);
     const rad = (c.angle * Math.PI) / 180;
     
-    // Needle (Left Leg) Local: (-spread, height)
-    // Pencil (Right Leg) Local: (spread, height)
+    // Needle (Left Leg) Local: (-spread, drop)
+    // Pencil (Right Leg) Local: (spread, drop)
     
     return {
-        needle: convertLocalToWorld(-spread, height, c.x, c.y, rad),
-        pencil: convertLocalToWorld(spread, height, c.x, c.y, rad)
+        needle: convertLocalToWorld(-spread, drop, c.x, c.y, rad),
+        pencil: convertLocalToWorld(spread, drop, c.x, c.y, rad)
     };
 }
 
+// Compass with its needle at `needle`, opened to `radius`, pencil in direction `angle` (degrees)
+export const placeCompass = (c: Widget, needle: Point, angle: number, radius: number): Widget => {
+    const opened = { ...c, angle, radius: Math.max(COMPASS_MIN_RADIUS, Math.min(radius, getCompassMaxRadius(c))) };
+    const { spread, drop } = getCompassGeometry(opened);
+    const offset = convertLocalToWorld(-spread, drop, 0, 0, (angle * Math.PI) / 180);
+    return { ...opened, x: needle.x - offset.x, y: needle.y - offset.y };
+};
+
+// Pencil positions for a turn of `sweep` degrees around the needle (COMPASS_ARC_STEP apart)
+export const getCompassArc = (c: Widget, sweep: number): Point[] => {
+    const { needle } = getCompassPoints(c);
+    const { radius } = getCompassGeometry(c);
+    const steps = Math.max(1, Math.ceil(Math.abs(sweep) / COMPASS_ARC_STEP));
+    return Array.from({ length: steps + 1 }, (_, i) => {
+        const rad = ((c.angle + (sweep * i) / steps) * Math.PI) / 180;
+        return { x: needle.x + Math.cos(rad) * radius, y: needle.y + Math.sin(rad) * radius };
+    });
+};
+
 const convertLocalToWorld = (lx: number, ly: number, cx: number, cy: number, rad: number): Point => {
   // Reverse rotation
   const cos = Math.cos(rad);
@@ -342,4 +708,397 @@ const convertLocalToWorld = (lx: number, ly: number, cx: number, cy: number, rad
   const wx = lx * cos - ly * sin + cx;
   const wy = lx * sin + ly * cos + cy;
   return { x: wx, y: wy };
-}
\ No newline at end of file
+}
+
+// Protractor arm tip (local and world) and its angle in whole degrees
+export const getProtractorArm = (p: Widget) => {
+  const r = p.radius || TOOL_DEFAULTS.PROTRACTOR.radius;
+  const angle = p.measureAngle ?? PROTRACTOR_DEFAULT_ANGLE;
+  const rad = (angle * Math.PI) / 180;
+  const len = r + TOOL_DEFAULTS.PROTRACTOR.armExtra;
+  const local = { x: Math.cos(rad) * len, y: -Math.sin(rad) * len };
+  return { angle, local, world: convertLocalToWorld(local.x, local.y, p.x, p.y, (p.angle * Math.PI) / 180) };
+};
+
+// Arm angle pointing at a world position, clamped to the half-disc and rounded to a degree
+export const getProtractorAngleAt = (p: Widget, x: number, y: number) => {
+  const local = worldToLocal(p, x, y);
+  const deg = (Math.atan2(-local.y, local.x) * 180) / Math.PI;
+  if (deg < 0) return deg < -90 ? 180 : 0;
+  return Math.round(deg);
+};
+
+// Short tick on the rim plus a label, left on the board where the arm points
+export const createAngleMark = (p: Widget, color: string, width: number): { tick: Point[], labelAt: Point, angle: number } => {
+  const r = p.radius || TOOL_DEFAULTS.PROTRACTOR.radius;
+  const { angle } = getProtractorArm(p);
+  const rad = (angle * Math.PI) / 180;
+  const rot = (p.angle * Math.PI) / 180;
+  const at = (dist: number) => convertLocalToWorld(Math.cos(rad) * dist, -Math.sin(rad) * dist, p.x, p.y, rot);
+  return { tick: [at(r + 2), at(r + 14 + width)], labelAt: at(r + TOOL_DEFAULTS.PROTRACTOR.armExtra + 16), angle };
+};
+// --- RENDERING ---
+
+export const drawGeometry = (ctx: CanvasRenderingContext2D, g: GeometryObject) => {
+  if (!g.defined) return;
+  ctx.save();
+  ctx.lineCap = 'round';
+
+  const outline = (width: number, color: string) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = width;
+    ctx.beginPath();
+    if (g.kind === 'circle') {
+      ctx.arc(g.anchors[0].x, g.anchors[0].y, getCircleRadius(g), 0, Math.PI * 2);
+    } else {
+      const [a, b] = getLineEnds(g);
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+    }
+    ctx.stroke();
+  };
+
+  if (isGeometryPoint(g)) {
+    const p = g.anchors[0];
+    if (g.selected) {
+      ctx.fillStyle = '#93c5fd';
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, GEOMETRY_POINT_RADIUS + 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    // Free points are solid, constructed ones hollow
+    ctx.fillStyle = g.kind === 'point' ? g.color : '#ffffff';
+    ctx.strokeStyle = g.color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, GEOMETRY_POINT_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    if (g.label) {
+      ctx.fillStyle = g.color;
+      ctx.font = 'italic 16px serif';
+      ctx.fillText(g.label, p.x + 7, p.y - 7);
+    }
+  } else {
+    if (g.selected) outline(6, '#93c5fd');
+    outline(g.kind === 'perpendicular' || g.kind === 'parallel' ? 1.5 : 2, g.color);
+  }
+  ctx.restore();
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, s: ShapeItem) => {
+  ctx.beginPath();
+  if (s.kind === 'ellipse') {
+    const { center, rx, ry, angle } = getEllipseGeometry(s);
+    ctx.ellipse(center.x, center.y, rx, ry, angle, 0, Math.PI * 2);
+    return;
+  }
+  s.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  if (isClosedShape(s)) ctx.closePath();
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, s: ShapeItem, from: Point, tip: Point) => {
+  const [left, right] = getArrowHead(from, tip, s.width);
+  ctx.setLineDash([]);
+  ctx.beginPath();
+  ctx.moveTo(left.x, left.y);
+  ctx.lineTo(tip.x, tip.y);
+  ctx.lineTo(right.x, right.y);
+  if ((s.arrowhead || SHAPE_DEFAULTS.arrowhead) === 'open') {
+    ctx.stroke();
+  } else {
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+};
+
+export const drawShape = (ctx: CanvasRenderingContext2D, s: ShapeItem) => {
+  if (s.points.length < 2) return;
+  ctx.save();
+
+  if (s.selected) {
+    ctx.strokeStyle = '#93c5fd';
+    ctx.lineWidth = s.width + 6;
+    ctx.lineJoin = 'round';
+    traceShape(ctx, s);
+    ctx.stroke();
+  }
+
+  if (s.fill && isClosedShape(s)) {
+    ctx.save();
+    ctx.globalAlpha = s.fillOpacity ?? SHAPE_DEFAULTS.fillOpacity;
+    ctx.fillStyle = s.fill;
+    traceShape(ctx, s);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.strokeStyle = s.color;
+  ctx.fillStyle = s.color;
+  ctx.lineWidth = s.width;
+  applyLineStyle(ctx, s.strokeStyle || 'solid');
+  traceShape(ctx, s);
+  ctx.stroke();
+
+  if (s.kind === 'arrow') {
+    const [from, to] = s.points;
+    drawArrowHead(ctx, s, from, to);
+    if (s.arrowhead === 'double') drawArrowHead(ctx, s, to, from);
+  }
+  ctx.restore();
+
+  // Vertex handles for editing
+  if (s.selected) {
+    ctx.save();
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 1.5;
+    const half = SHAPE_HANDLE_SIZE / 2;
+    s.points.forEach(p => {
+      ctx.fillRect(p.x - half, p.y - half, SHAPE_HANDLE_SIZE, SHAPE_HANDLE_SIZE);
+      ctx.strokeRect(p.x - half, p.y - half, SHAPE_HANDLE_SIZE, SHAPE_HANDLE_SIZE);
+    });
+    ctx.restore();
+  }
+};
+
+export const drawItem = (ctx: CanvasRenderingContext2D, item: CanvasItem) => {
+  if ((item as Widget).visible === false) return;
+
+  if (item.type === 'stroke') {
+    const s = item as Stroke;
+    // Selection halo underneath the ink
+    if (s.selected) drawStroke(ctx, { ...s, color: '#93c5fd', width: s.width + 6, strokeStyle: 'solid', selected: false });
+    drawStroke(ctx, s);
+  }
+  else if (item.type === 'ruler') drawRuler(ctx, item as Widget);
+  else if (item.type === 'protractor') drawProtractor(ctx, item as Widget);
+  else if (item.type === 'triangle') drawSetSquare(ctx, item as Widget);
+  else if (item.type === 'compass') drawCompass(ctx, item as Widget);
+  else if (item.type === 'image' || item.type === 'tikz') drawImageWidget(ctx, item as Widget);
+  else if (item.type === 'text') drawTextWidget(ctx, item as Widget);
+  else if (item.type === 'graph') drawGraph(ctx, item as Widget);
+  else if (isGeometry(item)) drawGeometry(ctx, item);
+  else if (isShape(item)) drawShape(ctx, item);
+};
+
+// Page background covering the visible world area (expects the viewport transform to be applied)
+export const drawPageBackground = (ctx: CanvasRenderingContext2D, background: PageBackground, view: Bounds, zoom: number) => {
+  if (background === 'plain') return;
+
+  // Coarsen the pattern when zoomed far out so it doesn't turn into a grey wash
+  let step = GRID_STEP;
+  while (step * zoom < 12) step *= 5;
+
+  const startX = Math.floor(view.minX / step) * step;
+  const startY = Math.floor(view.minY / step) * step;
+
+  ctx.save();
+  if (background === 'dotted') {
+    ctx.fillStyle = '#cbd5e1';
+    const r = 1.5 / zoom;
+    for (let x = startX; x < view.maxX; x += step) {
+      for (let y = startY; y < view.maxY; y += step) {
+        ctx.fillRect(x - r, y - r, r * 2, r * 2);
+      }
+    }
+    ctx.restore();
+    return;
+  }
+
+  ctx.strokeStyle = background === 'lined' ? '#dbeafe' : '#f1f5f9';
+  ctx.lineWidth = 1 / zoom;
+  ctx.beginPath();
+  if (background === 'grid') {
+    for (let x = startX; x < view.maxX; x += step) {
+      ctx.moveTo(x, view.minY); ctx.lineTo(x, view.maxY);
+    }
+  }
+  for (let y = startY; y < view.maxY; y += step) {
+    ctx.moveTo(view.minX, y); ctx.lineTo(view.maxX, y);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// --- VIEWPORT UTILS ---
+
+export const screenToWorld = (sx: number, sy: number, vp: Viewport): Point => ({
+  x: (sx - vp.x) / vp.zoom,
+  y: (sy - vp.y) / vp.zoom
+});
+
+export const worldToScreen = (wx: number, wy: number, vp: Viewport): Point => ({
+  x: wx * vp.zoom + vp.x,
+  y: wy * vp.zoom + vp.y
+});
+
+export const getVisibleWorldBounds = (vp: Viewport, width: number, height: number): Bounds => {
+  const tl = screenToWorld(0, 0, vp);
+  const br = screenToWorld(width, height, vp);
+  return { minX: tl.x, minY: tl.y, maxX: br.x, maxY: br.y };
+};
+
+// Zoom by `factor` keeping the screen point (sx, sy) fixed
+export const zoomAt = (vp: Viewport, sx: number, sy: number, factor: number): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, vp.zoom * factor));
+  const anchor = screenToWorld(sx, sy, vp);
+  return { zoom, x: sx - anchor.x * zoom, y: sy - anchor.y * zoom };
+};
+
+// Viewport that shows `bounds` centered in a width x height screen
+export const fitBounds = (bounds: Bounds, width: number, height: number, padding = FIT_PADDING): Viewport => {
+  const bw = Math.max(bounds.maxX - bounds.minX, 1);
+  const bh = Math.max(bounds.maxY - bounds.minY, 1);
+  const zoom = Math.min(
+    MAX_ZOOM,
+    Math.max(MIN_ZOOM, Math.min((width - padding * 2) / bw, (height - padding * 2) / bh))
+  );
+  const cx = (bounds.minX + bounds.maxX) / 2;
+  const cy = (bounds.minY + bounds.maxY) / 2;
+  return { zoom, x: width / 2 - cx * zoom, y: height / 2 - cy * zoom };
+};
+
+// Unrotated box of a widget in its local (translated + rotated) frame
+export const getWidgetLocalBox = (w: Widget) => {
+  switch (w.type) {
+    case 'ruler': {
+      const rw = w.width || TOOL_DEFAULTS.RULER.width;
+      const rh = w.height || TOOL_DEFAULTS.RULER.height;
+      return { x: -rw / 2, y: -rh / 2, w: rw, h: rh };
+    }
+    case 'protractor': {
+      // Includes the measuring arm, which reaches past the rim
+      const reach = (w.radius || TOOL_DEFAULTS.PROTRACTOR.radius) + TOOL_DEFAULTS.PROTRACTOR.armExtra + 8;
+      return { x: -reach, y: -reach, w: reach * 2, h: reach + 8 };
+    }
+    case 'triangle':
+      return { x: 0, y: 0, w: w.width || TOOL_DEFAULTS.TRIANGLE.width, h: w.height || TOOL_DEFAULTS.TRIANGLE.height };
+    case 'compass': {
+      // Legs, hinge and the radius readout (the dashed preview circle is not part of the box)
+      const { spread, drop } = getCompassGeometry(w);
+      const half = Math.max(spread + 8, 80);
+      return { x: -half, y: -8, w: half * 2, h: drop + 36 };
+    }
+    case 'image':
+    case 'tikz': {
+      const iw = (w.width || 100) * w.scale;
+      const ih = (w.height || 100) * w.scale;
+      return { x: -iw / 2, y: -ih / 2, w: iw, h: ih };
+    }
+    case 'graph': {
+      const gw = (w.width || GRAPH_DEFAULTS.width) * w.scale;
+      const gh = (w.height || GRAPH_DEFAULTS.height) * w.scale;
+      return { x: -gw / 2, y: -gh / 2, w: gw, h: gh };
+    }
+    default:
+      return getTextBox(w);
+  }
+};
+
+// World point -> widget-local coordinates (inverse of translate + rotate)
+export const worldToLocal = (w: Widget, x: number, y: number): Point => {
+  const rad = (w.angle * Math.PI) / 180;
+  const dx = x - w.x;
+  const dy = y - w.y;
+  return {
+    x: dx * Math.cos(-rad) - dy * Math.sin(-rad),
+    y: dx * Math.sin(-rad) + dy * Math.cos(-rad)
+  };
+};
+
+export const isPointInWidgetBox = (w: Widget, x: number, y: number, margin = 0) => {
+  const local = worldToLocal(w, x, y);
+  const box = getWidgetLocalBox(w);
+  return local.x >= box.x - margin && local.x <= box.x + box.w + margin &&
+    local.y >= box.y - margin && local.y <= box.y + box.h + margin;
+};
+
+// Strokes never change in place, so their (point-count sized) bounds are computed once
+const strokeBoundsCache = new WeakMap<Stroke, Bounds>();
+
+export const getItemBounds = (item: CanvasItem): Bounds => {
+  if (isGeometry(item)) {
+    if (!item.defined) return { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    if (isGeometryPoint(item)) {
+      // Point plus its label to the upper right
+      const p = item.anchors[0];
+      const pad = GEOMETRY_POINT_RADIUS + 2;
+      return { minX: p.x - pad, minY: p.y - 24, maxX: p.x + 28, maxY: p.y + pad };
+    }
+    if (item.kind === 'circle') {
+      const c = item.anchors[0];
+      const r = getCircleRadius(item) + 2;
+      return { minX: c.x - r, minY: c.y - r, maxX: c.x + r, maxY: c.y + r };
+    }
+    // Lines and rays: just the defining part (see isUnbounded)
+    const [a, b] = item.anchors;
+    return { minX: Math.min(a.x, b.x) - 2, minY: Math.min(a.y, b.y) - 2, maxX: Math.max(a.x, b.x) + 2, maxY: Math.max(a.y, b.y) + 2 };
+  }
+
+  if (isShape(item)) {
+    // Outline plus vertex handles and arrowheads
+    const pad = item.width / 2 + Math.max(SHAPE_HANDLE_SIZE, item.kind === 'arrow' ? Math.max(10, item.width * 4) : 0);
+    const outline = [...getShapeOutline(item), ...item.points];
+    return {
+      minX: Math.min(...outline.map(p => p.x)) - pad,
+      minY: Math.min(...outline.map(p => p.y)) - pad,
+      maxX: Math.max(...outline.map(p => p.x)) + pad,
+      maxY: Math.max(...outline.map(p => p.y)) + pad
+    };
+  }
+
+  if (item.type === 'stroke') {
+    const s = item as Stroke;
+    const cached = strokeBoundsCache.get(s);
+    if (cached) return cached;
+    const pad = s.width / 2;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of s.points) {
+      if (p.x < minX) minX = p.x;
+      if (p.y < minY) minY = p.y;
+      if (p.x > maxX) maxX = p.x;
+      if (p.y > maxY) maxY = p.y;
+    }
+    const bounds = { minX: minX - pad, minY: minY - pad, maxX: maxX + pad, maxY: maxY + pad };
+    strokeBoundsCache.set(s, bounds);
+    return bounds;
+  }
+
+  const w = item as Widget;
+  const box = getWidgetLocalBox(w);
+  const rad = (w.angle * Math.PI) / 180;
+  const corners = [
+    convertLocalToWorld(box.x, box.y, w.x, w.y, rad),
+    convertLocalToWorld(box.x + box.w, box.y, w.x, w.y, rad),
+    convertLocalToWorld(box.x, box.y + box.h, w.x, w.y, rad),
+    convertLocalToWorld(box.x + box.w, box.y + box.h, w.x, w.y, rad)
+  ];
+  return {
+    minX: Math.min(...corners.map(c => c.x)),
+    minY: Math.min(...corners.map(c => c.y)),
+    maxX: Math.max(...corners.map(c => c.x)),
+    maxY: Math.max(...corners.map(c => c.y))
+  };
+};
+
+// Union of all visible items, or null for an empty board
+export const getContentBounds = (items: CanvasItem[]): Bounds | null => {
+  let result: Bounds | null = null;
+  for (const item of items) {
+    if ((item as Widget).visible === false) continue;
+    if (item.type === 'stroke' && (item as Stroke).points.length === 0) continue;
+    if (isGeometry(item) && !item.defined) continue;
+    const b = getItemBounds(item);
+    result = result
+      ? {
+          minX: Math.min(result.minX, b.minX),
+          minY: Math.min(result.minY, b.minY),
+          maxX: Math.max(result.maxX, b.maxX),
+          maxY: Math.max(result.maxY, b.maxY)
+        }
+      : b;
+  }
+  return result;
+};
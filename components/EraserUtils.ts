@@ -0,0 +1,113 @@
+import { CanvasItem, Point, Stroke } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+import { distanceToStroke, hitTestItem } from "./SelectionUtils";
+import { boundsAround, getSpatialIndex } from "./SpatialIndex";
+
+// --- PARTIAL ERASING ---
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => {
+  const p: Point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  if (a.pressure !== undefined && b.pressure !== undefined) p.pressure = a.pressure + (b.pressure - a.pressure) * t;
+  return p;
+};
+
+// Part of segment a→b (as t in [0, 1]) inside the circle, or null
+const segmentInsideCircle = (a: Point, b: Point, center: Point, radius: number): [number, number] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const qa = dx * dx + dy * dy;
+  const qc = fx * fx + fy * fy - radius * radius;
+  if (qa === 0) return qc <= 0 ? [0, 1] : null;
+
+  const qb = 2 * (fx * dx + fy * dy);
+  const disc = qb * qb - 4 * qa * qc;
+  if (disc <= 0) return null;
+  const root = Math.sqrt(disc);
+  const t0 = Math.max(0, (-qb - root) / (2 * qa));
+  const t1 = Math.min(1, (-qb + root) / (2 * qa));
+  return t0 < t1 ? [t0, t1] : null;
+};
+
+// Cuts the circle out of the stroke. Returns null when the stroke is untouched,
+// otherwise the remaining fragments (possibly none) with the stroke's color and style.
+export const eraseFromStroke = (stroke: Stroke, center: Point, radius: number): Stroke[] | null => {
+  const pts = stroke.points;
+  if (pts.length === 1) {
+    return Math.hypot(pts[0].x - center.x, pts[0].y - center.y) <= radius ? [] : null;
+  }
+
+  const fragments: Point[][] = [];
+  let current: Point[] = [pts[0]];
+  let touched = false;
+  if (Math.hypot(pts[0].x - center.x, pts[0].y - center.y) <= radius) {
+    current = [];
+    touched = true;
+  }
+
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1];
+    const b = pts[i];
+    const inside = segmentInsideCircle(a, b, center, radius);
+    if (!inside) {
+      current.push(b);
+      continue;
+    }
+    touched = true;
+    const [t0, t1] = inside;
+    if (t0 > 0) current.push(lerpPoint(a, b, t0));
+    if (current.length > 1) fragments.push(current);
+    current = t1 < 1 ? [lerpPoint(a, b, t1), b] : [];
+  }
+  if (!touched) return null;
+  if (current.length > 1) fragments.push(current);
+
+  return fragments.map(points => ({ ...stroke, id: uuidv4(), points, selected: false }));
+};
+
+// Applies the eraser circle at each of `centers` (one pointer move) to the strokes near it.
+// Everything is looked up in the index of `items` and the new array is built once, so a fast
+// swipe doesn't rebuild the index per sub-step. Returns null when nothing changed.
+export const erasePartial = (items: CanvasItem[], centers: Point[], radius: number): CanvasItem[] | null => {
+  const index = getSpatialIndex(items);
+  // Original stroke -> what is left of it so far
+  const cut = new Map<CanvasItem, Stroke[]>();
+  for (const center of centers) {
+    for (const item of index.query(boundsAround(center.x, center.y, radius))) {
+      if (item.type !== 'stroke') continue;
+      const stroke = item as Stroke;
+      const current = cut.get(item) ?? [stroke];
+      let changed = false;
+      // Widen by half the line so the cut ink ends at the eraser's edge, not its centerline
+      const pieces = current.flatMap(piece => {
+        const left = eraseFromStroke(piece, center, radius + stroke.width / 2);
+        if (!left) return [piece];
+        changed = true;
+        return left;
+      });
+      if (changed) cut.set(item, pieces);
+    }
+  }
+  if (cut.size === 0) return null;
+  return items.flatMap(item => cut.get(item) ?? [item]);
+};
+
+// --- OBJECT ERASING ---
+
+// Whole strokes, shapes, text, images, graphs, diagrams and geometry touched by the circle at any of `centers`
+// (measurement tools are never erased)
+export const findObjectsToErase = (items: CanvasItem[], centers: Point[], radius: number): Set<CanvasItem> => {
+  const index = getSpatialIndex(items);
+  const found = new Set<CanvasItem>();
+  for (const center of centers) {
+    for (const item of index.query(boundsAround(center.x, center.y, radius))) {
+      if (found.has(item)) continue;
+      const hit = item.type === 'stroke'
+        ? distanceToStroke(item as Stroke, center) <= radius + (item as Stroke).width / 2
+        : ['text', 'image', 'tikz', 'graph', 'geometry', 'shape'].includes(item.type) && hitTestItem(item, center.x, center.y, radius);
+      if (hit) found.add(item);
+    }
+  }
+  return found;
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ExportOptions, ExportFormat, ExportArea } from '../types';
+import { EXPORT_DPI_OPTIONS } from '../constants';
+import { FaFileExport, FaCrop } from 'react-icons/fa';
+
+interface ExportDialogProps {
+  options: ExportOptions;
+  onChange: (options: ExportOptions) => void;
+  hasRegion: boolean;
+  pageCount: number;
+  isExporting: boolean;
+  onPickRegion: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat, label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'pdf', label: 'PDF' }
+];
+
+const AREAS: { id: ExportArea, label: string }[] = [
+  { id: 'board', label: 'Whole Board' },
+  { id: 'viewport', label: 'Visible View' },
+  { id: 'selection', label: 'Selected Region' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ options, onChange, hasRegion, pageCount, isExporting, onPickRegion, onExport, onClose }) => {
+  const set = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+  const multiPage = options.format === 'pdf' && options.allPages;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-[460px] p-6">
+        <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <FaFileExport className="text-teal-600"/> Export Board
+        </h2>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Format</label>
+          <div className="flex gap-2">
+            {FORMATS.map(f => (
+              <button
+                key={f.id}
+                onClick={() => set({ format: f.id })}
+                className={`flex-1 py-2 text-sm border rounded ${options.format === f.id ? 'bg-teal-50 border-teal-500 text-teal-700 font-medium' : 'hover:bg-slate-50'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Area</label>
+          <div className="flex gap-2">
+            {AREAS.map(a => (
+              <button
+                key={a.id}
+                disabled={multiPage || (a.id === 'selection' && !hasRegion)}
+                onClick={() => set({ area: a.id })}
+                className={`flex-1 py-2 text-xs border rounded disabled:opacity-40 ${options.area === a.id && !multiPage ? 'bg-teal-50 border-teal-500 text-teal-700 font-medium' : 'hover:bg-slate-50'}`}
+              >
+                {a.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onPickRegion}
+            disabled={multiPage}
+            className="mt-2 text-xs text-teal-700 hover:underline flex items-center gap-1 disabled:opacity-40"
+          >
+            <FaCrop /> {hasRegion ? 'Pick a different region on the board' : 'Drag a rectangle on the board'}
+          </button>
+        </div>
+
+        <div className="mb-4 flex flex-col gap-2 text-sm text-slate-700">
+          {options.format !== 'svg' && (
+            <label className="flex items-center justify-between">
+              <span>Resolution</span>
+              <select
+                className="border rounded px-2 py-1"
+                value={options.dpi}
+                onChange={(e) => set({ dpi: Number(e.target.value) })}
+              >
+                {EXPORT_DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+              </select>
+            </label>
+          )}
+          {options.format !== 'pdf' && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.transparent} onChange={(e) => set({ transparent: e.target.checked })} />
+              Transparent background
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={options.includeTools} onChange={(e) => set({ includeTools: e.target.checked })} />
+            Include measurement tools (ruler, compass...)
+          </label>
+          {options.format === 'pdf' && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.allPages} onChange={(e) => set({ allPages: e.target.checked })} />
+              All pages ({pageCount}) as a handout
+            </label>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">
+            Cancel
+          </button>
+          <button
+            onClick={onExport}
+            disabled={isExporting}
+            className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,276 @@
+import { CanvasItem, GeometryKind, GeometryObject, Point } from "../types";
+import { GEOMETRY_LINE_EXTENT } from "../constants";
+import { v4 as uuidv4 } from 'uuid';
+
+// Dynamic geometry: every object stores its solved anchors, and solveGeometry recomputes
+// dependents from their parents whenever the items change.
+
+const POINT_KINDS: GeometryKind[] = ['point', 'midpoint', 'intersection'];
+const LINE_KINDS: GeometryKind[] = ['segment', 'ray', 'line', 'perpendicular', 'parallel'];
+
+export const isGeometry = (item: CanvasItem): item is GeometryObject => item.type === 'geometry';
+export const isGeometryPoint = (item: CanvasItem) => isGeometry(item) && POINT_KINDS.includes(item.kind);
+export const isGeometryLine = (item: CanvasItem) => isGeometry(item) && LINE_KINDS.includes(item.kind);
+
+// Lines and rays have no natural end, so they are never culled or used for zoom-to-fit extents
+export const isUnbounded = (item: CanvasItem) => isGeometry(item) && item.kind !== 'segment' && LINE_KINDS.includes(item.kind);
+
+// --- SHAPES ---
+
+const unit = (a: Point, b: Point): Point | null => {
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  return len < 1e-9 ? null : { x: (b.x - a.x) / len, y: (b.y - a.y) / len };
+};
+
+// Drawable ends of a line-like object (segments as is, rays and lines stretched far away)
+export const getLineEnds = (g: GeometryObject): [Point, Point] => {
+  const [a, b] = g.anchors;
+  const d = unit(a, b);
+  if (!d || g.kind === 'segment') return [a, b];
+  const far = { x: b.x + d.x * GEOMETRY_LINE_EXTENT, y: b.y + d.y * GEOMETRY_LINE_EXTENT };
+  if (g.kind === 'ray') return [a, far];
+  return [{ x: a.x - d.x * GEOMETRY_LINE_EXTENT, y: a.y - d.y * GEOMETRY_LINE_EXTENT }, far];
+};
+
+export const getCircleRadius = (g: GeometryObject) =>
+  Math.hypot(g.anchors[1].x - g.anchors[0].x, g.anchors[1].y - g.anchors[0].y);
+
+// Parameter range along a line-like object (t = 0 at the first anchor, 1 at the second)
+const lineAccepts = (g: GeometryObject, t: number) => {
+  if (g.kind === 'segment') return t >= -1e-9 && t <= 1 + 1e-9;
+  if (g.kind === 'ray') return t >= -1e-9;
+  return true;
+};
+
+const lineAt = (g: GeometryObject, t: number): Point => ({
+  x: g.anchors[0].x + (g.anchors[1].x - g.anchors[0].x) * t,
+  y: g.anchors[0].y + (g.anchors[1].y - g.anchors[0].y) * t
+});
+
+// --- INTERSECTIONS ---
+
+const intersectLines = (l1: GeometryObject, l2: GeometryObject): Point | null => {
+  const [a, b] = l1.anchors;
+  const [c, d] = l2.anchors;
+  const r = { x: b.x - a.x, y: b.y - a.y };
+  const s = { x: d.x - c.x, y: d.y - c.y };
+  const denom = r.x * s.y - r.y * s.x;
+  if (Math.abs(denom) < 1e-9) return null;
+  const t = ((c.x - a.x) * s.y - (c.y - a.y) * s.x) / denom;
+  const u = ((c.x - a.x) * r.y - (c.y - a.y) * r.x) / denom;
+  return lineAccepts(l1, t) && lineAccepts(l2, u) ? lineAt(l1, t) : null;
+};
+
+// Crossings ordered along the line's direction
+const intersectLineCircle = (l: GeometryObject, c: GeometryObject): Point[] => {
+  const [a, b] = l.anchors;
+  const center = c.anchors[0];
+  const r = getCircleRadius(c);
+  const d = { x: b.x - a.x, y: b.y - a.y };
+  const f = { x: a.x - center.x, y: a.y - center.y };
+  const qa = d.x * d.x + d.y * d.y;
+  const qb = 2 * (f.x * d.x + f.y * d.y);
+  const qc = f.x * f.x + f.y * f.y - r * r;
+  const disc = qb * qb - 4 * qa * qc;
+  if (qa < 1e-9 || disc < 0) return [];
+  const root = Math.sqrt(disc);
+  return [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)]
+    .map(t => (lineAccepts(l, t) ? lineAt(l, t) : null))
+    .filter((p): p is Point => p !== null);
+};
+
+const intersectCircles = (c1: GeometryObject, c2: GeometryObject): Point[] => {
+  const p0 = c1.anchors[0];
+  const p1 = c2.anchors[0];
+  const r0 = getCircleRadius(c1);
+  const r1 = getCircleRadius(c2);
+  const dist = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+  if (dist < 1e-9 || dist > r0 + r1 || dist < Math.abs(r0 - r1)) return [];
+  const along = (r0 * r0 - r1 * r1 + dist * dist) / (2 * dist);
+  const h = Math.sqrt(Math.max(0, r0 * r0 - along * along));
+  const mid = { x: p0.x + (along * (p1.x - p0.x)) / dist, y: p0.y + (along * (p1.y - p0.y)) / dist };
+  const off = { x: (h * (p1.y - p0.y)) / dist, y: (-h * (p1.x - p0.x)) / dist };
+  return [{ x: mid.x + off.x, y: mid.y + off.y }, { x: mid.x - off.x, y: mid.y - off.y }];
+};
+
+const intersect = (o1: GeometryObject, o2: GeometryObject, index: number): Point | null => {
+  const line1 = LINE_KINDS.includes(o1.kind);
+  const line2 = LINE_KINDS.includes(o2.kind);
+  if (line1 && line2) return index === 0 ? intersectLines(o1, o2) : null;
+  if (line1 && o2.kind === 'circle') return intersectLineCircle(o1, o2)[index] ?? null;
+  if (o1.kind === 'circle' && line2) return intersectLineCircle(o2, o1)[index] ?? null;
+  if (o1.kind === 'circle' && o2.kind === 'circle') return intersectCircles(o1, o2)[index] ?? null;
+  return null;
+};
+
+// --- SOLVING ---
+
+// Anchors of a dependent object from its (already solved) parents, or null if undefined
+const solveAnchors = (g: GeometryObject, parents: GeometryObject[]): Point[] | null => {
+  const pt = (i: number) => parents[i].anchors[0];
+  switch (g.kind) {
+    case 'midpoint':
+      return [{ x: (pt(0).x + pt(1).x) / 2, y: (pt(0).y + pt(1).y) / 2 }];
+    case 'segment':
+    case 'ray':
+    case 'line':
+    case 'circle':
+      return unit(pt(0), pt(1)) ? [pt(0), pt(1)] : null;
+    case 'perpendicular':
+    case 'parallel': {
+      const d = unit(parents[0].anchors[0], parents[0].anchors[1]);
+      if (!d) return null;
+      const dir = g.kind === 'parallel' ? d : { x: -d.y, y: d.x };
+      return [pt(1), { x: pt(1).x + dir.x * 100, y: pt(1).y + dir.y * 100 }];
+    }
+    case 'intersection': {
+      const p = intersect(parents[0], parents[1], g.index ?? 0);
+      return p ? [p] : null;
+    }
+    default:
+      return g.anchors;
+  }
+};
+
+const sameAnchors = (a: Point[], b: Point[]) =>
+  a.length === b.length && a.every((p, i) => p.x === b[i].x && p.y === b[i].y);
+
+// Brings every dependent object up to date with its parents. Objects whose parents were deleted
+// are removed too. Returns the same array when nothing changed, so downstream caches stay valid.
+export const solveGeometry = (items: CanvasItem[]): CanvasItem[] => {
+  if (!items.some(isGeometry)) return items;
+
+  const solved = new Map<string, GeometryObject>();
+  let changed = false;
+  const next: CanvasItem[] = [];
+
+  for (const item of items) {
+    if (!isGeometry(item)) {
+      next.push(item);
+      continue;
+    }
+    if (item.kind === 'point') {
+      solved.set(item.id, item);
+      next.push(item);
+      continue;
+    }
+
+    const parents = item.parents.map(id => solved.get(id));
+    if (parents.some(p => !p)) {
+      changed = true; // Built on something that no longer exists
+      continue;
+    }
+
+    const ready = parents as GeometryObject[];
+    const anchors = ready.every(p => p.defined) ? solveAnchors(item, ready) : null;
+    const defined = anchors !== null;
+    const result = defined === item.defined && (!anchors || sameAnchors(anchors, item.anchors))
+      ? item
+      : { ...item, defined, anchors: anchors ?? item.anchors };
+    if (result !== item) changed = true;
+    solved.set(item.id, result);
+    next.push(result);
+  }
+
+  return changed ? next : items;
+};
+
+// --- CONSTRUCTION ---
+
+// What each construction tool asks for, one click at a time
+export type GeometryInput = 'point' | 'line' | 'curve';
+
+export const GEOMETRY_TOOL_INPUTS: Record<GeometryKind, GeometryInput[]> = {
+  point: ['point'],
+  segment: ['point', 'point'],
+  ray: ['point', 'point'],
+  line: ['point', 'point'],
+  circle: ['point', 'point'], // center, then a point on the circle
+  midpoint: ['point', 'point'],
+  perpendicular: ['line', 'point'],
+  parallel: ['line', 'point'],
+  intersection: ['curve', 'curve']
+};
+
+export const acceptsInput = (item: CanvasItem, input: GeometryInput) => {
+  if (!isGeometry(item) || !item.defined) return false;
+  if (input === 'point') return isGeometryPoint(item);
+  if (input === 'line') return isGeometryLine(item);
+  return isGeometryLine(item) || item.kind === 'circle';
+};
+
+// A, B, ..., Z, then A1, B1, ...
+export const nextPointLabel = (items: CanvasItem[]) => {
+  const used = new Set(items.filter(isGeometry).map(g => g.label));
+  for (let round = 0; ; round++) {
+    for (let i = 0; i < 26; i++) {
+      const label = String.fromCharCode(65 + i) + (round ? round : '');
+      if (!used.has(label)) return label;
+    }
+  }
+};
+
+export const createGeometryPoint = (p: Point, label: string, color: string): GeometryObject => ({
+  id: uuidv4(),
+  type: 'geometry',
+  kind: 'point',
+  parents: [],
+  anchors: [{ x: p.x, y: p.y }],
+  defined: true,
+  label,
+  color
+});
+
+// Dependent object; solveGeometry fills in its anchors
+export const createGeometryObject = (kind: GeometryKind, parents: string[], color: string, extra: Partial<GeometryObject> = {}): GeometryObject => ({
+  id: uuidv4(),
+  type: 'geometry',
+  kind,
+  parents,
+  anchors: [],
+  defined: false,
+  color,
+  ...extra
+});
+
+// Free points that `ids` are (transitively) built on; moving those moves the construction
+export const getFreeAncestors = (items: CanvasItem[], ids: Iterable<string>): Set<string> => {
+  const byId = new Map(items.filter(isGeometry).map(g => [g.id, g]));
+  const result = new Set<string>();
+  const visit = (id: string) => {
+    const g = byId.get(id);
+    if (!g) return;
+    if (g.kind === 'point') result.add(id);
+    else g.parents.forEach(visit);
+  };
+  for (const id of ids) visit(id);
+  return result;
+};
+
+// Distance from p to the object's outline (for hit tests and snapping)
+export const distanceToGeometry = (g: GeometryObject, p: Point): number => {
+  if (!g.defined) return Infinity;
+  if (POINT_KINDS.includes(g.kind)) return Math.hypot(p.x - g.anchors[0].x, p.y - g.anchors[0].y);
+  if (g.kind === 'circle') return Math.abs(Math.hypot(p.x - g.anchors[0].x, p.y - g.anchors[0].y) - getCircleRadius(g));
+  const closest = closestOnGeometry(g, p);
+  return Math.hypot(p.x - closest.x, p.y - closest.y);
+};
+
+// Nearest point of the object's outline
+export const closestOnGeometry = (g: GeometryObject, p: Point): Point => {
+  if (POINT_KINDS.includes(g.kind)) return g.anchors[0];
+  if (g.kind === 'circle') {
+    const center = g.anchors[0];
+    const d = unit(center, p) ?? { x: 1, y: 0 };
+    const r = getCircleRadius(g);
+    return { x: center.x + d.x * r, y: center.y + d.y * r };
+  }
+  const [a, b] = g.anchors;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy || 1;
+  let t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq;
+  if (g.kind === 'segment') t = Math.max(0, Math.min(1, t));
+  else if (g.kind === 'ray') t = Math.max(0, t);
+  return lineAt(g, t);
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { CurveKind, GraphCurve, GraphSpec, Widget } from '../types';
+import { COLORS, GRAPH_DEFAULTS } from '../constants';
+import { compileCurve, createGraphCurve } from './GraphUtils';
+import { FaChartLine, FaPlus, FaTrash } from 'react-icons/fa';
+
+interface GraphEditorProps {
+  widget: Widget;
+  onSave: (widget: Widget) => void;
+  onCancel: () => void;
+}
+
+const CURVE_KINDS: { kind: CurveKind, label: string, placeholder: string }[] = [
+  { kind: 'explicit', label: 'y = f(x)', placeholder: 'x^3 - 3x' },
+  { kind: 'parametric', label: '(x(t), y(t))', placeholder: '2cos t' },
+  { kind: 'polar', label: 'r = f(θ)', placeholder: '1 + cos θ' }
+];
+
+const NumberField: React.FC<{ label: string, value: number, step?: number, onChange: (value: number) => void }> = ({ label, value, step = 1, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-700">
+    <span className="w-12 text-slate-500">{label}</span>
+    <input
+      type="number"
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-20 border rounded px-2 py-1 text-sm"
+    />
+  </label>
+);
+
+const GraphEditor: React.FC<GraphEditorProps> = ({ widget, onSave, onCancel }) => {
+  const [spec, setSpec] = useState<GraphSpec>(widget.graph!);
+  const [size, setSize] = useState({ width: widget.width || GRAPH_DEFAULTS.width, height: widget.height || GRAPH_DEFAULTS.height });
+
+  const set = (patch: Partial<GraphSpec>) => setSpec(prev => ({ ...prev, ...patch }));
+  const setCurve = (id: string, patch: Partial<GraphCurve>) =>
+    set({ curves: spec.curves.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+
+  const addCurve = () => {
+    const color = COLORS.find(c => !spec.curves.some(curve => curve.color === c)) || COLORS[0];
+    set({ curves: [...spec.curves, createGraphCurve(color, 'x')] });
+  };
+
+  const changeKind = (curve: GraphCurve, kind: CurveKind) => {
+    const placeholder = CURVE_KINDS.find(k => k.kind === kind)!.placeholder;
+    setCurve(curve.id, kind === 'parametric'
+      ? { kind, expr: placeholder, exprY: '2sin t', tMin: GRAPH_DEFAULTS.tMin, tMax: GRAPH_DEFAULTS.tMax }
+      : { kind, expr: placeholder, ...(kind === 'polar' ? { tMin: GRAPH_DEFAULTS.tMin, tMax: GRAPH_DEFAULTS.tMax } : {}) });
+  };
+
+  const rangeError =
+    !(spec.xMin < spec.xMax) ? 'x min must be less than x max' :
+    !(spec.yMin < spec.yMax) ? 'y min must be less than y max' :
+    !(spec.xTick > 0 && spec.yTick > 0) ? 'Tick spacing must be positive' :
+    spec.curves.some(c => c.kind !== 'explicit' && !((c.tMin ?? 0) < (c.tMax ?? 0))) ? 'Parameter ranges must run from low to high' :
+    null;
+
+  const save = () => {
+    if (rangeError) return;
+    onSave({ ...widget, graph: spec, width: Math.max(120, size.width), height: Math.max(90, size.height) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto p-6">
+        <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <FaChartLine className="text-teal-600"/> Graph
+        </h2>
+
+        <div className="mb-4 space-y-3">
+          {spec.curves.map(curve => {
+            const error = compileCurve(curve).error;
+            return (
+              <div key={curve.id} className="border rounded-lg p-3">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={curve.kind}
+                    onChange={(e) => changeKind(curve, e.target.value as CurveKind)}
+                    className="border rounded px-2 py-1 text-sm"
+                  >
+                    {CURVE_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+                  </select>
+                  <input
+                    value={curve.expr}
+                    onChange={(e) => setCurve(curve.id, { expr: e.target.value })}
+                    placeholder={curve.kind === 'parametric' ? 'x(t)' : CURVE_KINDS.find(k => k.kind === curve.kind)!.placeholder}
+                    className="flex-1 min-w-0 border rounded px-2 py-1 text-sm font-mono"
+                  />
+                  {curve.kind === 'parametric' && (
+                    <input
+                      value={curve.exprY || ''}
+                      onChange={(e) => setCurve(curve.id, { exprY: e.target.value })}
+                      placeholder="y(t)"
+                      className="flex-1 min-w-0 border rounded px-2 py-1 text-sm font-mono"
+                    />
+                  )}
+                  <button
+                    onClick={() => set({ curves: spec.curves.filter(c => c.id !== curve.id) })}
+                    className="p-2 text-slate-400 hover:text-red-500"
+                    title="Remove curve"
+                  >
+                    <FaTrash size={12}/>
+                  </button>
+                </div>
+                <div className="flex items-center gap-3 mt-2">
+                  <div className="flex gap-1">
+                    {COLORS.map(c => (
+                      <button
+                        key={c}
+                        onClick={() => setCurve(curve.id, { color: c })}
+                        className={`w-5 h-5 rounded-full border-2 ${curve.color === c ? 'border-slate-900' : 'border-transparent'}`}
+                        style={{ backgroundColor: c }}
+                      />
+                    ))}
+                  </div>
+                  {curve.kind !== 'explicit' && (
+                    <>
+                      <NumberField label={curve.kind === 'polar' ? 'θ from' : 't from'} value={curve.tMin ?? GRAPH_DEFAULTS.tMin} step={0.1} onChange={(tMin) => setCurve(curve.id, { tMin })} />
+                      <NumberField label="to" value={curve.tMax ?? GRAPH_DEFAULTS.tMax} step={0.1} onChange={(tMax) => setCurve(curve.id, { tMax })} />
+                    </>
+                  )}
+                </div>
+                {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+              </div>
+            );
+          })}
+          <button onClick={addCurve} className="flex items-center gap-2 text-sm text-teal-700 hover:underline">
+            <FaPlus size={10}/> Add curve
+          </button>
+          <p className="text-xs text-slate-500">
+            Write 2x, sin x, x^2, |x|, sqrt(x), ln, exp, pi... Use t for parametric curves and θ (or theta) for polar ones.
+          </p>
+        </div>
+
+        <div className="mb-4 grid grid-cols-2 gap-x-6 gap-y-2">
+          <NumberField label="x min" value={spec.xMin} onChange={(xMin) => set({ xMin })} />
+          <NumberField label="y min" value={spec.yMin} onChange={(yMin) => set({ yMin })} />
+          <NumberField label="x max" value={spec.xMax} onChange={(xMax) => set({ xMax })} />
+          <NumberField label="y max" value={spec.yMax} onChange={(yMax) => set({ yMax })} />
+          <NumberField label="x tick" value={spec.xTick} step={0.5} onChange={(xTick) => set({ xTick })} />
+          <NumberField label="y tick" value={spec.yTick} step={0.5} onChange={(yTick) => set({ yTick })} />
+          <NumberField label="Width" value={size.width} step={20} onChange={(width) => setSize(prev => ({ ...prev, width }))} />
+          <NumberField label="Height" value={size.height} step={20} onChange={(height) => setSize(prev => ({ ...prev, height }))} />
+        </div>
+
+        <div className="mb-4 flex gap-6">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={spec.showGrid} onChange={(e) => set({ showGrid: e.target.checked })} />
+            Grid
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={spec.showPoints} onChange={(e) => set({ showPoints: e.target.checked })} />
+            Mark roots, extrema and intersections
+          </label>
+        </div>
+
+        {rangeError && <p className="mb-3 text-sm text-red-600">{rangeError}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!!rangeError}
+            className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GraphEditor;
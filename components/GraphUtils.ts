@@ -0,0 +1,240 @@
+import { GraphCurve, GraphSpec, Point } from "../types";
+import { GRAPH_DEFAULTS, GRAPH_MAX_POINTS, GRAPH_SCAN_STEPS } from "../constants";
+import { compileExpression, CompiledExpression } from "./MathExpression";
+import { v4 as uuidv4 } from 'uuid';
+
+// Function plotter: compiles curves, samples them for drawing and finds points of interest.
+// Everything is cached per spec / curve object, which are replaced (never mutated) on edit.
+
+export interface PointOfInterest {
+  kind: 'root' | 'max' | 'min' | 'intersection';
+  x: number;
+  y: number;
+  color: string;
+}
+
+interface CompiledCurve {
+  f?: CompiledExpression; // explicit y(x) or polar r(θ)
+  fx?: CompiledExpression; // parametric
+  fy?: CompiledExpression;
+  error?: string;
+}
+
+export const createGraphCurve = (color: string, expr = GRAPH_DEFAULTS.expr): GraphCurve => ({
+  id: uuidv4(),
+  kind: 'explicit',
+  expr,
+  color
+});
+
+export const createGraphSpec = (color: string): GraphSpec => ({
+  curves: [createGraphCurve(color)],
+  xMin: GRAPH_DEFAULTS.xMin,
+  xMax: GRAPH_DEFAULTS.xMax,
+  yMin: GRAPH_DEFAULTS.yMin,
+  yMax: GRAPH_DEFAULTS.yMax,
+  xTick: GRAPH_DEFAULTS.xTick,
+  yTick: GRAPH_DEFAULTS.yTick,
+  showGrid: true,
+  showPoints: true
+});
+
+// "y = ...", "f(x) = ...", "r = ..." are accepted and ignored
+const stripLeftSide = (expr: string) => expr.replace(/^\s*(?:y|r|f\s*\(\s*x\s*\)|r\s*\(\s*(?:θ|theta)\s*\))\s*=/i, '');
+
+const compiledCache = new WeakMap<GraphCurve, CompiledCurve>();
+
+export const compileCurve = (curve: GraphCurve): CompiledCurve => {
+  const cached = compiledCache.get(curve);
+  if (cached) return cached;
+  let compiled: CompiledCurve;
+  try {
+    if (curve.kind === 'explicit') compiled = { f: compileExpression(stripLeftSide(curve.expr), ['x']) };
+    else if (curve.kind === 'polar') compiled = { f: compileExpression(stripLeftSide(curve.expr), ['θ']) };
+    else compiled = { fx: compileExpression(curve.expr, ['t']), fy: compileExpression(curve.exprY || '', ['t']) };
+  } catch (error) {
+    compiled = { error: error instanceof Error ? error.message : String(error) };
+  }
+  compiledCache.set(curve, compiled);
+  return compiled;
+};
+
+// Point of the curve at parameter t (x for explicit curves), null where undefined
+const curvePoint = (curve: GraphCurve, compiled: CompiledCurve, t: number): Point | null => {
+  let p: Point;
+  if (curve.kind === 'explicit') {
+    p = { x: t, y: compiled.f!({ x: t }) };
+  } else if (curve.kind === 'polar') {
+    const r = compiled.f!({ 'θ': t });
+    p = { x: r * Math.cos(t), y: r * Math.sin(t) };
+  } else {
+    p = { x: compiled.fx!({ t }), y: compiled.fy!({ t }) };
+  }
+  return Number.isFinite(p.x) && Number.isFinite(p.y) ? p : null;
+};
+
+export const getParameterRange = (curve: GraphCurve, spec: GraphSpec): [number, number] =>
+  curve.kind === 'explicit'
+    ? [spec.xMin, spec.xMax]
+    : [curve.tMin ?? GRAPH_DEFAULTS.tMin, curve.tMax ?? GRAPH_DEFAULTS.tMax];
+
+const sampleCache = new WeakMap<GraphSpec, Map<string, Point[][]>>();
+
+// Polylines in graph coordinates; the curve is broken at gaps and jumps (asymptotes of tan x, 1/x...)
+export const sampleCurve = (curve: GraphCurve, spec: GraphSpec, samples: number): Point[][] => {
+  let bySpec = sampleCache.get(spec);
+  if (!bySpec) {
+    bySpec = new Map();
+    sampleCache.set(spec, bySpec);
+  }
+  const key = `${curve.id}|${samples}`;
+  const cached = bySpec.get(key);
+  if (cached) return cached;
+
+  const compiled = compileCurve(curve);
+  const runs: Point[][] = [];
+  if (!compiled.error) {
+    const [t0, t1] = getParameterRange(curve, spec);
+    const span = Math.max(spec.xMax - spec.xMin, spec.yMax - spec.yMin);
+    const limit = span * 1000; // keeps far-away points finite for the canvas
+    let run: Point[] = [];
+    let prevT = t0;
+    let prev: Point | null = null;
+    for (let i = 0; i <= samples; i++) {
+      const t = t0 + ((t1 - t0) * i) / samples;
+      const p = curvePoint(curve, compiled, t);
+      let broken = !p;
+      if (p && prev && Math.hypot(p.x - prev.x, p.y - prev.y) > span / 2) {
+        // A big step is only a discontinuity if the midpoint doesn't lie between its neighbours
+        const mid = curvePoint(curve, compiled, (prevT + t) / 2);
+        const between = (a: number, b: number, m: number) => m >= Math.min(a, b) && m <= Math.max(a, b);
+        broken = !mid || !between(prev.x, p.x, mid.x) || !between(prev.y, p.y, mid.y);
+      }
+      if (broken && run.length > 1) runs.push(run);
+      if (broken) run = [];
+      if (p) run.push({ x: Math.max(-limit, Math.min(limit, p.x)), y: Math.max(-limit, Math.min(limit, p.y)) });
+      prev = p;
+      prevT = t;
+    }
+    if (run.length > 1) runs.push(run);
+  }
+  bySpec.set(key, runs);
+  return runs;
+};
+
+// --- POINTS OF INTEREST ---
+
+const bisect = (g: (x: number) => number, a: number, b: number) => {
+  let ga = g(a);
+  for (let i = 0; i < 60; i++) {
+    const m = (a + b) / 2;
+    const gm = g(m);
+    if (gm === 0) return m;
+    if (Math.sign(gm) === Math.sign(ga)) {
+      a = m;
+      ga = gm;
+    } else {
+      b = m;
+    }
+  }
+  return (a + b) / 2;
+};
+
+// Golden-section search for the extremum of f inside [a, b]
+const refineExtremum = (f: (x: number) => number, a: number, b: number, max: boolean) => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const better = (u: number, v: number) => (max ? u > v : u < v);
+  for (let i = 0; i < 60; i++) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (better(f(c), f(d))) b = d;
+    else a = c;
+  }
+  return (a + b) / 2;
+};
+
+// Sign changes of g across the view; asymptotes (where |g| stays large) are not roots
+const findRoots = (g: (x: number) => number, spec: GraphSpec): number[] => {
+  const roots: number[] = [];
+  const step = (spec.xMax - spec.xMin) / GRAPH_SCAN_STEPS;
+  const tolerance = (spec.yMax - spec.yMin) * 1e-6;
+  let prevX = spec.xMin;
+  let prev = g(prevX);
+  for (let i = 1; i <= GRAPH_SCAN_STEPS; i++) {
+    const x = spec.xMin + i * step;
+    const value = g(x);
+    if (prev === 0) {
+      roots.push(prevX);
+    } else if (Number.isFinite(prev) && Number.isFinite(value) && value !== 0 && Math.sign(prev) !== Math.sign(value)) {
+      const root = bisect(g, prevX, x);
+      if (Math.abs(g(root)) <= tolerance) roots.push(root);
+    }
+    prevX = x;
+    prev = value;
+  }
+  if (prev === 0) roots.push(prevX);
+  return roots;
+};
+
+const findExtrema = (f: (x: number) => number, spec: GraphSpec): { x: number, max: boolean }[] => {
+  const result: { x: number, max: boolean }[] = [];
+  const step = (spec.xMax - spec.xMin) / GRAPH_SCAN_STEPS;
+  const values = Array.from({ length: GRAPH_SCAN_STEPS + 1 }, (_, i) => f(spec.xMin + i * step));
+  for (let i = 1; i < GRAPH_SCAN_STEPS; i++) {
+    const [a, b, c] = [values[i - 1], values[i], values[i + 1]];
+    if (![a, b, c].every(Number.isFinite)) continue;
+    const max = b > a && b >= c;
+    const min = b < a && b <= c;
+    if (!max && !min) continue;
+    const x = refineExtremum(f, spec.xMin + (i - 1) * step, spec.xMin + (i + 1) * step, max);
+    // A spike into an asymptote is not an extremum
+    if (Number.isFinite(f(x)) && Math.abs(f(x) - b) <= Math.abs(c - a) + (spec.yMax - spec.yMin) * 1e-3) result.push({ x, max });
+  }
+  return result;
+};
+
+const poiCache = new WeakMap<GraphSpec, PointOfInterest[]>();
+
+// Roots and extrema of explicit curves, and where explicit curves cross each other (inside the view)
+export const findPointsOfInterest = (spec: GraphSpec): PointOfInterest[] => {
+  const cached = poiCache.get(spec);
+  if (cached) return cached;
+
+  const explicit = spec.curves
+    .filter(c => c.kind === 'explicit' && !compileCurve(c).error)
+    .map(c => ({ curve: c, f: (x: number) => compileCurve(c).f!({ x }) }));
+  const points: PointOfInterest[] = [];
+
+  for (const { curve, f } of explicit) {
+    findRoots(f, spec).forEach(x => points.push({ kind: 'root', x, y: 0, color: curve.color }));
+    findExtrema(f, spec).forEach(({ x, max }) => points.push({ kind: max ? 'max' : 'min', x, y: f(x), color: curve.color }));
+  }
+  for (let i = 0; i < explicit.length; i++) {
+    for (let j = i + 1; j < explicit.length; j++) {
+      const a = explicit[i].f;
+      const b = explicit[j].f;
+      findRoots(x => a(x) - b(x), spec).forEach(x => points.push({ kind: 'intersection', x, y: a(x), color: '#334155' }));
+    }
+  }
+
+  // Inside the view, no near-duplicates (a root that is also an extremum is listed once)
+  const eps = (spec.xMax - spec.xMin) * 1e-4;
+  const result = points
+    .filter(p => p.y >= spec.yMin && p.y <= spec.yMax)
+    .filter((p, i, all) => all.findIndex(q => Math.abs(q.x - p.x) <= eps && Math.abs(q.y - p.y) <= eps) === i)
+    .slice(0, GRAPH_MAX_POINTS);
+  poiCache.set(spec, result);
+  return result;
+};
+
+// 2 decimals at most, no "-0"
+export const formatGraphNumber = (n: number) => {
+  const rounded = Math.round(n * 100) / 100;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+export const describeCurve = (curve: GraphCurve) => {
+  if (curve.kind === 'explicit') return `y = ${stripLeftSide(curve.expr).trim()}`;
+  if (curve.kind === 'polar') return `r = ${stripLeftSide(curve.expr).trim()}`;
+  return `(${curve.expr.trim()}, ${(curve.exprY || '').trim()})`;
+};
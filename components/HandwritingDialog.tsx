@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { FaSignature, FaCircleNotch } from 'react-icons/fa';
+
+interface HandwritingDialogProps {
+  image: string; // data URL of the ink that was sent
+  latex: string;
+  status: 'recognizing' | 'ready' | 'error';
+  error?: string;
+  onChange: (latex: string) => void;
+  onRetry: () => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Typeset preview of what the text widget will show, one formula per line
+const LatexPreview: React.FC<{ latex: string }> = ({ latex }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const el = ref.current;
+    const mj = (window as any).MathJax;
+    if (!el) return;
+    mj?.typesetClear?.([el]);
+    el.textContent = latex.split('\n').filter(l => l.trim()).map(l => `\\[${l}\\]`).join('');
+    mj?.typesetPromise?.([el]).catch(() => undefined);
+  }, [latex]);
+  return <div ref={ref} className="min-h-[3rem] overflow-x-auto" />;
+};
+
+const HandwritingDialog: React.FC<HandwritingDialogProps> = ({ image, latex, status, error, onChange, onRetry, onConfirm, onCancel }) => (
+  <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+    <div className="bg-white rounded-xl shadow-2xl w-[560px] max-w-[95vw] p-6">
+      <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+        <FaSignature className="text-teal-600"/> Handwriting to LaTeX
+      </h2>
+
+      <img src={image} alt="Selected ink" className="w-full max-h-40 object-contain border rounded bg-white mb-4" />
+
+      {status === 'recognizing' ? (
+        <div className="h-24 flex items-center justify-center gap-2 text-slate-500 text-sm">
+          <FaCircleNotch className="animate-spin text-teal-600" /> Reading the handwriting...
+        </div>
+      ) : (
+        <>
+          {status === 'error' && (
+            <p className="mb-2 text-sm text-red-600">{error || 'Recognition failed.'} You can retry or type the LaTeX yourself.</p>
+          )}
+          <label className="block mb-3">
+            <span className="block text-sm font-medium text-slate-700 mb-1">LaTeX (one formula per line, without $)</span>
+            <textarea
+              value={latex}
+              onChange={(e) => onChange(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) onConfirm();
+              }}
+              rows={3}
+              autoFocus
+              className="w-full border rounded px-2 py-1 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-teal-500"
+            />
+          </label>
+          <div className="mb-4 border border-slate-200 rounded-lg p-3 bg-slate-50">
+            <LatexPreview latex={latex} />
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">Cancel</button>
+        <button onClick={onRetry} disabled={status === 'recognizing'} className="px-4 py-2 border border-teal-200 text-teal-700 rounded hover:bg-teal-50 disabled:opacity-50">
+          Recognize again
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={status === 'recognizing' || !latex.trim()}
+          className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+          title="Replace the ink with a math text widget (Ctrl+Enter)"
+        >
+          Replace ink
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default HandwritingDialog;
@@ -0,0 +1,223 @@
+// Small math expression compiler for the graph widget: "x^3 - 3x", "2sin(t)", "1 + cos θ", "|x| / 2".
+// Supports + - * / ^, implicit multiplication, |...|, the usual functions and the constants pi and e.
+
+export type Scope = Record<string, number>;
+export type CompiledExpression = (scope: Scope) => number;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  cot: x => 1 / Math.tan(x),
+  sec: x => 1 / Math.cos(x),
+  csc: x => 1 / Math.sin(x),
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  sign: Math.sign,
+  min: Math.min,
+  max: Math.max
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, e: Math.E };
+
+// Alternative spellings of variables (polar curves use θ)
+const VARIABLE_ALIASES: Record<string, string> = { theta: 'θ', t: 't', x: 'x', 'θ': 'θ' };
+
+type Token =
+  | { kind: 'number', value: number, pos: number }
+  | { kind: 'name', value: string, pos: number }
+  | { kind: 'op', value: string, pos: number };
+
+// Longest known name first, so "pix" reads as pi * x and "sinx" as sin x
+const KNOWN_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS), ...Object.keys(VARIABLE_ALIASES)]
+  .sort((a, b) => b.length - a.length);
+
+const splitName = (word: string, pos: number): Token[] => {
+  const tokens: Token[] = [];
+  let rest = word;
+  while (rest) {
+    const name = KNOWN_NAMES.find(n => rest.startsWith(n));
+    if (!name) throw new Error(`Unknown name "${rest}" at ${pos + word.length - rest.length + 1}`);
+    tokens.push({ kind: 'name', value: name, pos: pos + word.length - rest.length });
+    rest = rest.slice(name.length);
+  }
+  return tokens;
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new Error(`Bad number at ${i + 1}`);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+    } else if (/[a-zπθ]/i.test(ch)) {
+      // Letters only, except for log2 ("x2" is x * 2)
+      const match = /^[a-zπθ]+(?:(?<=log)2(?![\d.]))?/i.exec(source.slice(i)) as RegExpExecArray;
+      tokens.push(...splitName(match[0].toLowerCase(), i));
+      i += match[0].length;
+    } else if ('+-*/^(),|'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch, pos: i });
+      i++;
+    } else if (ch === '·' || ch === '×') {
+      tokens.push({ kind: 'op', value: '*', pos: i });
+      i++;
+    } else {
+      throw new Error(`Unexpected "${ch}" at ${i + 1}`);
+    }
+  }
+  return tokens;
+};
+
+// Recursive descent; each rule returns a closure over the already compiled operands
+export const compileExpression = (source: string, variables: string[]): CompiledExpression => {
+  const tokens = tokenize(source);
+  const allowed = new Set(variables);
+  let pos = 0;
+  let absDepth = 0; // Inside |...|, a "|" closes instead of opening
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(peek() ? `Expected "${value}" at ${peek().pos + 1}` : `Missing "${value}"`);
+    pos++;
+  };
+
+  // Could the next token begin a factor? (implicit multiplication: 2x, 3(x+1), x sin x)
+  const startsFactor = () => {
+    const t = peek();
+    if (!t) return false;
+    if (t.kind !== 'op') return true;
+    return t.value === '(' || (t.value === '|' && absDepth === 0);
+  };
+
+  const parseExpression = (): CompiledExpression => {
+    let left = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const a = left;
+      const b = parseTerm();
+      left = op === '+' ? s => a(s) + b(s) : s => a(s) - b(s);
+    }
+    return left;
+  };
+
+  const parseTerm = (): CompiledExpression => {
+    let left = parseUnary();
+    for (;;) {
+      const a = left;
+      if (isOp('*') || isOp('/')) {
+        const op = tokens[pos++].value;
+        const b = parseUnary();
+        left = op === '*' ? s => a(s) * b(s) : s => a(s) / b(s);
+      } else if (startsFactor()) {
+        const b = parsePower();
+        left = s => a(s) * b(s);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): CompiledExpression => {
+    if (isOp('-')) {
+      pos++;
+      const a = parseUnary();
+      return s => -a(s);
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right associative, and binds tighter than a leading minus: -x^2 = -(x^2)
+  const parsePower = (): CompiledExpression => {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return s => Math.pow(base(s), exponent(s));
+  };
+
+  const parsePrimary = (): CompiledExpression => {
+    const t = peek();
+    if (!t) throw new Error('Unexpected end of expression');
+    pos++;
+
+    if (t.kind === 'number') {
+      const value = t.value;
+      return () => value;
+    }
+    if (t.kind === 'op') {
+      if (t.value === '(') {
+        const inner = parseExpression();
+        expect(')');
+        return inner;
+      }
+      if (t.value === '|') {
+        absDepth++;
+        const inner = parseExpression();
+        absDepth--;
+        expect('|');
+        return s => Math.abs(inner(s));
+      }
+      throw new Error(`Unexpected "${t.value}" at ${t.pos + 1}`);
+    }
+
+    const name = t.value;
+    if (name in CONSTANTS) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+    if (name in VARIABLE_ALIASES) {
+      const variable = VARIABLE_ALIASES[name];
+      if (!allowed.has(variable)) throw new Error(`Use ${variables.join(', ')} here instead of "${name}"`);
+      return s => s[variable];
+    }
+
+    const fn = FUNCTIONS[name];
+    if (isOp('(')) {
+      pos++;
+      const args = [parseExpression()];
+      while (isOp(',')) {
+        pos++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      // sin(x)^2 squares the result
+      return s => fn(...args.map(arg => arg(s)));
+    }
+    // Without parentheses the argument is the next power: sin x^2 = sin(x^2)
+    const arg = parsePower();
+    return s => fn(arg(s));
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const compiled = parseExpression();
+  if (pos < tokens.length) throw new Error(`Unexpected "${String(tokens[pos].value)}" at ${tokens[pos].pos + 1}`);
+  return compiled;
+};
@@ -0,0 +1,202 @@
+import { Widget } from "../types";
+import { TEXT_DEFAULTS } from "../constants";
+
+// Rich text for text widgets: plain text with inline $...$ LaTeX, typeset by MathJax (loaded in index.html)
+
+export interface MathRender {
+  svg: string; // standalone SVG markup (used by SVG export)
+  img: HTMLImageElement; // same SVG as an image (used on canvas)
+  width: number; // px
+  height: number; // px
+  descent: number; // px below the baseline
+}
+
+export interface TextRun {
+  kind: 'text' | 'math';
+  text: string; // plain text, or the TeX source without the $ delimiters
+  x: number;
+  y: number; // baseline
+  width: number;
+  math?: MathRender | null;
+}
+
+export interface TextLayout {
+  runs: TextRun[];
+  width: number;
+  top: number; // relative to the first baseline (negative)
+  height: number;
+}
+
+// MathJax SVG sizes are in ex; this is the ex height of the default sans-serif face relative to font size
+const EX_PER_EM = 0.45;
+
+const mathCache = new Map<string, MathRender | null>();
+const listeners = new Set<() => void>();
+
+// Called whenever a formula (or MathJax itself) becomes ready, so the board can redraw
+export const subscribeMathReady = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const getMathJax = () => {
+  const mj = (window as any).MathJax;
+  return mj && typeof mj.tex2svg === 'function' ? mj : null;
+};
+
+let waitingForMathJax = false;
+const waitForMathJax = () => {
+  if (waitingForMathJax) return;
+  waitingForMathJax = true;
+  const poll = () => {
+    if (getMathJax()) {
+      waitingForMathJax = false;
+      notify();
+    } else {
+      setTimeout(poll, 300);
+    }
+  };
+  poll();
+};
+
+const exToPx = (value: string | null, fontSize: number) => {
+  const ex = parseFloat(value || '0');
+  return Number.isFinite(ex) ? ex * fontSize * EX_PER_EM : 0;
+};
+
+// Returns null while MathJax is still loading
+export const getMathRender = (tex: string, color: string, fontSize: number): MathRender | null => {
+  const key = `${fontSize}|${color}|${tex}`;
+  const cached = mathCache.get(key);
+  if (cached) return cached;
+
+  const mj = getMathJax();
+  if (!mj) {
+    waitForMathJax();
+    return null;
+  }
+
+  try {
+    const node: HTMLElement = mj.tex2svg(tex, { display: false });
+    const svgEl = node.querySelector('svg');
+    if (!svgEl) return null;
+
+    const width = exToPx(svgEl.getAttribute('width'), fontSize);
+    const height = exToPx(svgEl.getAttribute('height'), fontSize);
+    const align = /vertical-align:\s*(-?[\d.]+)ex/.exec(svgEl.getAttribute('style') || '');
+    const descent = align ? -exToPx(align[1], fontSize) : 0;
+
+    svgEl.setAttribute('width', `${width}`);
+    svgEl.setAttribute('height', `${height}`);
+    svgEl.removeAttribute('style');
+    svgEl.setAttribute('color', color); // MathJax paints with currentColor
+    svgEl.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    const svg = new XMLSerializer().serializeToString(svgEl);
+
+    const img = new Image();
+    img.onload = notify;
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+    const render = { svg, img, width, height, descent };
+    mathCache.set(key, render);
+    return render;
+  } catch (error) {
+    console.error("MathJax Error:", error);
+    return null;
+  }
+};
+
+// --- LAYOUT ---
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+const getMeasureCtx = () => {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  return measureCtx as CanvasRenderingContext2D;
+};
+
+export const getTextStyle = (t: Widget) => {
+  const fontSize = t.fontSize || TEXT_DEFAULTS.fontSize;
+  return {
+    fontSize,
+    color: t.color || TEXT_DEFAULTS.color,
+    font: `${t.bold ? 'bold ' : ''}${fontSize}px sans-serif`
+  };
+};
+
+// Split "area is $\pi r^2$" into text and math parts
+export const splitMathSegments = (line: string) => {
+  const parts: { kind: 'text' | 'math', text: string }[] = [];
+  const re = /\$([^$]+)\$/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line))) {
+    if (match.index > last) parts.push({ kind: 'text', text: line.slice(last, match.index) });
+    parts.push({ kind: 'math', text: match[1] });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) parts.push({ kind: 'text', text: line.slice(last) });
+  return parts;
+};
+
+// Lines grow to fit tall formulas (fractions, sums); the first baseline stays at y = 0
+export const layoutText = (t: Widget): TextLayout => {
+  const { fontSize, color, font } = getTextStyle(t);
+  const ctx = getMeasureCtx();
+  ctx.font = font;
+
+  const runs: TextRun[] = [];
+  const gap = fontSize * (TEXT_DEFAULTS.lineHeight - 1);
+  let baseline = 0;
+  let top = 0;
+  let width = 0;
+  let prevDescent = 0;
+
+  (t.text || '').split('\n').forEach((line, lineIdx) => {
+    const lineRuns: TextRun[] = [];
+    let ascent = fontSize * 0.8;
+    let descent = fontSize * 0.25;
+    let x = 0;
+
+    for (const part of splitMathSegments(line)) {
+      if (part.kind === 'math') {
+        const math = getMathRender(part.text, color, fontSize);
+        if (math) {
+          lineRuns.push({ kind: 'math', text: part.text, x, y: 0, width: math.width, math });
+          ascent = Math.max(ascent, math.height - math.descent);
+          descent = Math.max(descent, math.descent);
+          x += math.width;
+          continue;
+        }
+        // MathJax not ready yet: show the source
+        const raw = `$${part.text}$`;
+        const w = ctx.measureText(raw).width;
+        lineRuns.push({ kind: 'math', text: part.text, x, y: 0, width: w, math: null });
+        x += w;
+      } else {
+        const w = ctx.measureText(part.text).width;
+        lineRuns.push({ kind: 'text', text: part.text, x, y: 0, width: w });
+        x += w;
+      }
+    }
+
+    if (lineIdx === 0) {
+      top = -ascent;
+    } else {
+      baseline += prevDescent + gap + ascent;
+    }
+    lineRuns.forEach(run => { run.y = baseline; });
+    runs.push(...lineRuns);
+    width = Math.max(width, x);
+    prevDescent = descent;
+  });
+
+  return { runs, width, top, height: baseline + prevDescent - top };
+};
+
+// Local box used for selection outlines, bounds and hit testing
+export const getTextBox = (t: Widget) => {
+  const layout = layoutText(t);
+  return { x: -5, y: layout.top - 3, w: Math.max(layout.width, 10) + 10, h: layout.height + 6 };
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef } from 'react';
+import { CanvasItem, Viewport, Bounds } from '../types';
+import { drawItem, getContentBounds, getVisibleWorldBounds } from './CanvasUtils';
+
+const MAP_WIDTH = 180;
+const MAP_HEIGHT = 120;
+const MAP_PADDING = 100; // world px around content
+
+interface MinimapProps {
+  items: CanvasItem[];
+  viewport: Viewport;
+  screenWidth: number;
+  screenHeight: number;
+  onNavigate: (worldX: number, worldY: number) => void; // center the viewport on this world point
+}
+
+const Minimap: React.FC<MinimapProps> = ({ items, viewport, screenWidth, screenHeight, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const mapping = useRef<{ region: Bounds; scale: number } | null>(null);
+  const isDragging = useRef(false);
+  // Items drawn at the current map scale; panning inside the content area only redraws the frame
+  const contentCache = useRef<{ canvas: HTMLCanvasElement; items: CanvasItem[]; key: string } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    // Before the first resize the screen is 0×0: the scale would be NaN or Infinity
+    if (screenWidth <= 0 || screenHeight <= 0) {
+      mapping.current = null;
+      return;
+    }
+
+    const visible = getVisibleWorldBounds(viewport, screenWidth, screenHeight);
+    const content = getContentBounds(items);
+    const region: Bounds = content
+      ? {
+          minX: Math.min(content.minX - MAP_PADDING, visible.minX),
+          minY: Math.min(content.minY - MAP_PADDING, visible.minY),
+          maxX: Math.max(content.maxX + MAP_PADDING, visible.maxX),
+          maxY: Math.max(content.maxY + MAP_PADDING, visible.maxY)
+        }
+      : visible;
+
+    const scale = Math.min(MAP_WIDTH / (region.maxX - region.minX), MAP_HEIGHT / (region.maxY - region.minY));
+    // Center the region inside the map
+    const offsetX = (MAP_WIDTH - (region.maxX - region.minX) * scale) / 2;
+    const offsetY = (MAP_HEIGHT - (region.maxY - region.minY) * scale) / 2;
+    mapping.current = {
+      region: {
+        minX: region.minX - offsetX / scale,
+        minY: region.minY - offsetY / scale,
+        maxX: region.maxX + offsetX / scale,
+        maxY: region.maxY + offsetY / scale
+      },
+      scale
+    };
+
+    const key = `${scale}|${offsetX - region.minX * scale}|${offsetY - region.minY * scale}`;
+    let cache = contentCache.current;
+    if (!cache || cache.items !== items || cache.key !== key) {
+      const layer = cache?.canvas ?? document.createElement('canvas');
+      layer.width = MAP_WIDTH;
+      layer.height = MAP_HEIGHT;
+      const layerCtx = layer.getContext('2d');
+      if (layerCtx) {
+        layerCtx.setTransform(scale, 0, 0, scale, offsetX - region.minX * scale, offsetY - region.minY * scale);
+        items.forEach(item => drawItem(layerCtx, item));
+      }
+      cache = { canvas: layer, items, key };
+      contentCache.current = cache;
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+    ctx.drawImage(cache.canvas, 0, 0);
+
+    ctx.setTransform(scale, 0, 0, scale, offsetX - region.minX * scale, offsetY - region.minY * scale);
+
+    // Viewport rectangle
+    ctx.strokeStyle = '#0d9488';
+    ctx.lineWidth = 2 / scale;
+    ctx.strokeRect(visible.minX, visible.minY, visible.maxX - visible.minX, visible.maxY - visible.minY);
+  }, [items, viewport, screenWidth, screenHeight]);
+
+  const navigate = (e: React.MouseEvent) => {
+    const m = mapping.current;
+    if (!m || !canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    onNavigate(
+      m.region.minX + (e.clientX - rect.left) / m.scale,
+      m.region.minY + (e.clientY - rect.top) / m.scale
+    );
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={MAP_WIDTH}
+      height={MAP_HEIGHT}
+      className="bg-white/90 border border-slate-200 rounded shadow cursor-pointer"
+      onMouseDown={(e) => { isDragging.current = true; navigate(e); }}
+      onMouseMove={(e) => { if (isDragging.current) navigate(e); }}
+      onMouseUp={() => { isDragging.current = false; }}
+      onMouseLeave={() => { isDragging.current = false; }}
+    />
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoardPage } from '../types';
+import { drawItem, drawPageBackground, fitBounds, getContentBounds } from './CanvasUtils';
+import { FaPlus, FaCopy, FaTrash, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+
+const THUMB_WIDTH = 112;
+const THUMB_HEIGHT = 72;
+
+const PageThumbnail: React.FC<{ page: BoardPage }> = ({ page }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+
+    const bounds = getContentBounds(page.items);
+    const vp = bounds ? fitBounds(bounds, THUMB_WIDTH, THUMB_HEIGHT, 6) : { x: 0, y: 0, zoom: 0.1 };
+    ctx.setTransform(vp.zoom, 0, 0, vp.zoom, vp.x, vp.y);
+    drawPageBackground(
+      ctx,
+      page.background,
+      { minX: -vp.x / vp.zoom, minY: -vp.y / vp.zoom, maxX: (THUMB_WIDTH - vp.x) / vp.zoom, maxY: (THUMB_HEIGHT - vp.y) / vp.zoom },
+      vp.zoom
+    );
+    page.items.forEach(item => drawItem(ctx, item));
+  }, [page]);
+
+  return <canvas ref={canvasRef} width={THUMB_WIDTH} height={THUMB_HEIGHT} className="block rounded" />;
+};
+
+interface PageStripProps {
+  pages: BoardPage[];
+  activePageId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const PageStrip: React.FC<PageStripProps> = ({ pages, activePageId, onSelect, onAdd, onDuplicate, onDelete, onMove }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const activeIndex = pages.findIndex(p => p.id === activePageId);
+
+  return (
+    <div className="bg-white/90 backdrop-blur p-2 rounded-lg shadow border border-slate-200 flex items-center gap-2 max-w-[60vw]">
+      <div className="flex gap-2 overflow-x-auto">
+        {pages.map((page, idx) => (
+          <div
+            key={page.id}
+            draggable
+            onDragStart={() => setDragIndex(idx)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null && dragIndex !== idx) onMove(dragIndex, idx);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onClick={() => onSelect(page.id)}
+            className={`relative shrink-0 cursor-pointer rounded border-2 ${page.id === activePageId ? 'border-teal-500' : 'border-slate-200 hover:border-slate-300'} ${dragIndex === idx ? 'opacity-40' : ''}`}
+            title={`Page ${idx + 1}`}
+          >
+            <PageThumbnail page={page} />
+            <span className="absolute bottom-0.5 left-1 text-[10px] font-semibold text-slate-500">{idx + 1}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1 text-slate-500 text-xs">
+        <div className="flex gap-1">
+          <button className="p-1.5 rounded hover:bg-slate-100 disabled:opacity-30" disabled={activeIndex <= 0} onClick={() => onMove(activeIndex, activeIndex - 1)} title="Move Page Left"><FaChevronLeft /></button>
+          <button className="p-1.5 rounded hover:bg-slate-100 disabled:opacity-30" disabled={activeIndex >= pages.length - 1} onClick={() => onMove(activeIndex, activeIndex + 1)} title="Move Page Right"><FaChevronRight /></button>
+        </div>
+        <div className="flex gap-1">
+          <button className="p-1.5 rounded hover:bg-slate-100" onClick={onAdd} title="Add Page"><FaPlus /></button>
+          <button className="p-1.5 rounded hover:bg-slate-100" onClick={() => onDuplicate(activePageId)} title="Duplicate Page"><FaCopy /></button>
+          <button className="p-1.5 rounded hover:bg-red-100 text-red-400 disabled:opacity-30" disabled={pages.length <= 1} onClick={() => onDelete(activePageId)} title="Delete Page"><FaTrash /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PageStrip;
@@ -0,0 +1,113 @@
+import { CanvasItem, Stroke, Viewport } from "../types";
+import { BENCHMARK_STROKE_COUNT, COLORS, ERASER_RADIUS } from "../constants";
+import { drawStroke } from "./CanvasUtils";
+import { createSceneLayer, drawBoardScene } from "./BoardRenderer";
+import { boundsAround, buildSpatialIndex } from "./SpatialIndex";
+import { findItemAt } from "./SelectionUtils";
+import { getUnitSettings } from "./Units";
+
+// Synthetic lesson: short handwriting-like strokes spread over a large board.
+// Run from the dev console with `runBoardBenchmark()` (optionally passing a stroke count).
+
+export interface BenchmarkResult {
+  step: string;
+  ms: number;
+}
+
+declare global {
+  interface Window {
+    runBoardBenchmark?: (strokeCount?: number, width?: number, height?: number) => BenchmarkResult[];
+  }
+}
+
+const BOARD_SIZE = 12000; // world px square
+const QUERY_COUNT = 1000;
+
+// Deterministic so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+export const createBenchmarkStrokes = (count: number): Stroke[] => {
+  const random = createRandom(42);
+  return Array.from({ length: count }, (_, i) => {
+    let x = random() * BOARD_SIZE;
+    let y = random() * BOARD_SIZE;
+    const points = Array.from({ length: 20 + Math.floor(random() * 40) }, () => {
+      x += (random() - 0.5) * 12;
+      y += (random() - 0.5) * 12;
+      return { x, y, pressure: 0.3 + random() * 0.4 };
+    });
+    return {
+      id: `bench-${i}`,
+      type: 'stroke',
+      points,
+      color: COLORS[i % COLORS.length],
+      width: 3,
+      strokeStyle: 'solid'
+    };
+  });
+};
+
+const time = (results: BenchmarkResult[], step: string, fn: () => void) => {
+  const start = performance.now();
+  fn();
+  results.push({ step, ms: Math.round((performance.now() - start) * 100) / 100 });
+};
+
+export const runRenderBenchmark = (strokeCount = BENCHMARK_STROKE_COUNT, width = 1600, height = 900): BenchmarkResult[] => {
+  const results: BenchmarkResult[] = [];
+  const items: CanvasItem[] = createBenchmarkStrokes(strokeCount);
+  const random = createRandom(7);
+  const probes = Array.from({ length: QUERY_COUNT }, () => ({ x: random() * BOARD_SIZE, y: random() * BOARD_SIZE }));
+  const radius = ERASER_RADIUS;
+
+  let index = buildSpatialIndex(items);
+  time(results, `Build spatial index (${strokeCount} strokes)`, () => { index = buildSpatialIndex(items); });
+
+  time(results, `Eraser queries x${QUERY_COUNT}, full scan`, () => {
+    probes.forEach(({ x, y }) => items.filter(item =>
+      (item as Stroke).points.some(p => Math.hypot(p.x - x, p.y - y) < radius)));
+  });
+  time(results, `Eraser queries x${QUERY_COUNT}, spatial index`, () => {
+    probes.forEach(({ x, y }) => index.query(boundsAround(x, y, radius)).filter(item =>
+      (item as Stroke).points.some(p => Math.hypot(p.x - x, p.y - y) < radius)));
+  });
+  time(results, `Hit tests x${QUERY_COUNT}`, () => {
+    probes.forEach(({ x, y }) => findItemAt(items, x, y, { includeStrokes: true }));
+  });
+
+  // Without a DOM (e.g. bundled for Node) only the index and hit-test timings are taken
+  if (typeof document === 'undefined') return results;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return results;
+
+  const overview: Viewport = { x: 0, y: 0, zoom: Math.min(width, height) / BOARD_SIZE };
+  const closeUp: Viewport = { x: -BOARD_SIZE / 2, y: -BOARD_SIZE / 2, zoom: 1 };
+  const scene = { items, background: 'grid' as const, width, height, hiddenId: null, assetVersion: 0, units: getUnitSettings() };
+
+  time(results, 'Full redraw, whole board visible', () => drawBoardScene(ctx, { ...scene, viewport: overview }));
+  time(results, 'Full redraw, zoomed in (culled)', () => drawBoardScene(ctx, { ...scene, viewport: closeUp }));
+
+  // A frame while writing: cached board + the live stroke
+  const layer = createSceneLayer();
+  const closeUpScene = { ...scene, viewport: closeUp };
+  layer.render(closeUpScene);
+  const live = createBenchmarkStrokes(1)[0];
+  time(results, 'Live stroke frame x100 (cached layer)', () => {
+    for (let i = 0; i < 100; i++) {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(layer.render(closeUpScene), 0, 0);
+      ctx.setTransform(closeUp.zoom, 0, 0, closeUp.zoom, closeUp.x, closeUp.y);
+      drawStroke(ctx, live);
+    }
+  });
+
+  console.table(results);
+  return results;
+};
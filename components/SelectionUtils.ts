@@ -0,0 +1,142 @@
+import { Bounds, CanvasItem, Point, Stroke, Widget } from "../types";
+import { TOOL_DEFAULTS, GEOMETRY_POINT_RADIUS } from "../constants";
+import { getCompassPoints, getContentBounds, getItemBounds, getWidgetLocalBox, worldToLocal } from "./CanvasUtils";
+import { boundsAround, getSpatialIndex } from "./SpatialIndex";
+import { distanceToGeometry, isGeometry, isGeometryPoint } from "./Geometry";
+import { distanceToSegment, hitTestShape, isShape } from "./ShapeUtils";
+
+// --- HIT TESTING ---
+
+export const distanceToStroke = (s: Stroke, p: Point) => {
+  const pts = s.points;
+  if (pts.length === 1) return Math.hypot(p.x - pts[0].x, p.y - pts[0].y);
+  let best = Infinity;
+  for (let i = 1; i < pts.length; i++) {
+    best = Math.min(best, distanceToSegment(p, pts[i - 1], pts[i]));
+  }
+  return best;
+};
+
+// Geometry-accurate test per item type; `tolerance` is in world px
+export const hitTestItem = (item: CanvasItem, x: number, y: number, tolerance = 4): boolean => {
+  if ((item as Widget).visible === false) return false;
+
+  if (item.type === 'stroke') {
+    const s = item as Stroke;
+    return distanceToStroke(s, { x, y }) <= s.width / 2 + tolerance;
+  }
+
+  if (isGeometry(item)) {
+    const reach = isGeometryPoint(item) ? GEOMETRY_POINT_RADIUS + 2 : 2;
+    return distanceToGeometry(item, { x, y }) <= reach + tolerance;
+  }
+
+  if (isShape(item)) return hitTestShape(item, { x, y }, tolerance);
+
+  const w = item as Widget;
+  const local = worldToLocal(w, x, y);
+
+  switch (w.type) {
+    case 'protractor': {
+      // Half-disc above the baseline
+      const r = w.radius || TOOL_DEFAULTS.PROTRACTOR.radius;
+      return local.y <= tolerance && Math.hypot(local.x, local.y) <= r + tolerance;
+    }
+    case 'triangle': {
+      // Right triangle (0,0) (w,0) (0,h)
+      const tw = w.width || TOOL_DEFAULTS.TRIANGLE.width;
+      const th = w.height || TOOL_DEFAULTS.TRIANGLE.height;
+      return local.x >= -tolerance && local.y >= -tolerance &&
+        local.x / tw + local.y / th <= 1 + tolerance / Math.min(tw, th);
+    }
+    case 'compass': {
+      // Either leg or the hinge head
+      const { needle, pencil } = getCompassPoints(w);
+      const hinge = { x: w.x, y: w.y };
+      const p = { x, y };
+      return Math.hypot(x - w.x, y - w.y) <= 10 + tolerance ||
+        distanceToSegment(p, hinge, needle) <= 6 + tolerance ||
+        distanceToSegment(p, hinge, pencil) <= 6 + tolerance;
+    }
+    default: {
+      // Ruler, image / diagram (scaled), graph and text are rectangles in local space
+      const box = getWidgetLocalBox(w);
+      return local.x >= box.x - tolerance && local.x <= box.x + box.w + tolerance &&
+        local.y >= box.y - tolerance && local.y <= box.y + box.h + tolerance;
+    }
+  }
+};
+
+// Topmost item under the point; strokes, shapes and geometry count as board content (`includeStrokes`)
+export const findItemAt = (
+  items: CanvasItem[],
+  x: number,
+  y: number,
+  options: { includeStrokes: boolean, tolerance?: number }
+): CanvasItem | undefined => {
+  // The compass hinge sticks out of its box a little, hence the extra margin
+  const candidates = getSpatialIndex(items).query(boundsAround(x, y, (options.tolerance ?? 4) + 12));
+  // Constructed points sit on their lines; grab the point, not the line under it
+  const point = options.includeStrokes && candidates.find(item => isGeometryPoint(item) && hitTestItem(item, x, y, options.tolerance));
+  if (point) return point;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const item = candidates[i];
+    if ((item.type === 'stroke' || item.type === 'geometry' || item.type === 'shape') && !options.includeStrokes) continue;
+    if (hitTestItem(item, x, y, options.tolerance)) return item;
+  }
+  return undefined;
+};
+
+// Rubber-band selection: items entirely inside the rectangle
+export const findItemsInRect = (items: CanvasItem[], rect: Bounds): CanvasItem[] =>
+  getSpatialIndex(items).query(rect).filter(item => {
+    const b = getItemBounds(item);
+    return b.minX >= rect.minX && b.maxX <= rect.maxX && b.minY >= rect.minY && b.maxY <= rect.maxY;
+  });
+
+// --- SELECTION TRANSFORMS ---
+
+export const getSelection = (items: CanvasItem[]) => items.filter(i => i.selected);
+
+export const getSelectionCenter = (selection: CanvasItem[]): Point | null => {
+  const b = getContentBounds(selection);
+  return b ? { x: (b.minX + b.maxX) / 2, y: (b.minY + b.maxY) / 2 } : null;
+};
+
+export const translateItem = <T extends CanvasItem>(item: T, dx: number, dy: number): T => {
+  if (isGeometry(item)) {
+    // Only free points move; everything built on them follows when solved
+    if (item.kind !== 'point') return item;
+    return { ...item, anchors: item.anchors.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })) };
+  }
+  if (item.type === 'stroke' || isShape(item)) {
+    const s = item as Stroke;
+    return { ...s, points: s.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })) } as T;
+  }
+  const w = item as Widget;
+  return { ...w, x: w.x + dx, y: w.y + dy } as T;
+};
+
+const rotatePoint = <P extends Point>(p: P, center: Point, cos: number, sin: number): P => ({
+  ...p,
+  x: center.x + (p.x - center.x) * cos - (p.y - center.y) * sin,
+  y: center.y + (p.x - center.x) * sin + (p.y - center.y) * cos
+});
+
+// Rotate around an arbitrary center (used for groups, strokes and shapes)
+export const rotateItemAround = <T extends CanvasItem>(item: T, center: Point, degrees: number): T => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  if (isGeometry(item)) {
+    if (item.kind !== 'point') return item;
+    return { ...item, anchors: item.anchors.map(p => rotatePoint(p, center, cos, sin)) };
+  }
+  if (item.type === 'stroke' || isShape(item)) {
+    const s = item as Stroke;
+    return { ...s, points: s.points.map(p => rotatePoint(p, center, cos, sin)) } as T;
+  }
+  const w = item as Widget;
+  const pos = rotatePoint({ x: w.x, y: w.y }, center, cos, sin);
+  return { ...w, x: pos.x, y: pos.y, angle: w.angle + degrees } as T;
+};
@@ -0,0 +1,247 @@
+import { Point, ShapeKind, Stroke } from "../types";
+import { SMART_INK } from "../constants";
+import { distanceToSegment } from "./ShapeUtils";
+
+// Smart ink: turns a finished freehand stroke into a clean line, polyline, polygon, rectangle,
+// circle, ellipse or arrow. Purely geometric, everything runs locally.
+
+export interface RecognizedShape {
+  kind: ShapeKind;
+  points: Point[];
+}
+
+const dist = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const pathLength = (pts: Point[]) => {
+  let length = 0;
+  for (let i = 1; i < pts.length; i++) length += dist(pts[i - 1], pts[i]);
+  return length;
+};
+
+// Evenly spaced points along the stroke, so fast and slow parts weigh the same
+const resample = (pts: Point[], count: number): Point[] => {
+  const step = pathLength(pts) / (count - 1);
+  if (step === 0) return [pts[0]];
+  const result: Point[] = [{ x: pts[0].x, y: pts[0].y }];
+  let carried = 0;
+  for (let i = 1; i < pts.length; i++) {
+    let a = pts[i - 1];
+    const b = pts[i];
+    let segment = dist(a, b);
+    while (carried + segment >= step && result.length < count) {
+      const t = (step - carried) / segment;
+      a = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      result.push(a);
+      segment = dist(a, b);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  const last = pts[pts.length - 1];
+  if (result.length < count) result.push({ x: last.x, y: last.y });
+  return result;
+};
+
+// Ramer-Douglas-Peucker: corners of the stroke within `epsilon`
+const simplify = (pts: Point[], epsilon: number): Point[] => {
+  if (pts.length < 3) return pts;
+  let index = 0;
+  let max = 0;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const d = distanceToSegment(pts[i], pts[0], pts[pts.length - 1]);
+    if (d > max) {
+      max = d;
+      index = i;
+    }
+  }
+  if (max <= epsilon) return [pts[0], pts[pts.length - 1]];
+  const left = simplify(pts.slice(0, index + 1), epsilon);
+  return [...left.slice(0, -1), ...simplify(pts.slice(index), epsilon)];
+};
+
+// Corners of a closed stroke; the start point is rarely a corner, so it is dropped when it lies on an edge
+const closedCorners = (pts: Point[], epsilon: number): Point[] => {
+  const corners = simplify(pts, epsilon).slice(0, -1);
+  if (corners.length > 3 && distanceToSegment(corners[0], corners[corners.length - 1], corners[1]) <= epsilon) {
+    corners.shift();
+  }
+  return corners;
+};
+
+// Angle at b between ba and bc, in degrees
+const cornerAngle = (a: Point, b: Point, c: Point) => {
+  const v1 = Math.atan2(a.y - b.y, a.x - b.x);
+  const v2 = Math.atan2(c.y - b.y, c.x - b.x);
+  let deg = Math.abs(v1 - v2) * 180 / Math.PI;
+  if (deg > 180) deg = 360 - deg;
+  return deg;
+};
+
+// Open strokes only become polylines when the ink between corners is really straight and
+// every corner is sharp; curves (parabolas, arcs, S-shapes) also simplify to a few corners
+const isPolyline = (pts: Point[], corners: Point[]) => {
+  const at = corners.map(c => pts.indexOf(c));
+  for (let i = 1; i < corners.length; i++) {
+    const a = corners[i - 1];
+    const b = corners[i];
+    const limit = Math.max(2, SMART_INK.polylineStraightness * dist(a, b));
+    if (pts.slice(at[i - 1], at[i] + 1).some(p => distanceToSegment(p, a, b) > limit)) return false;
+    if (i < corners.length - 1 && cornerAngle(a, b, corners[i + 1]) > SMART_INK.polylineMaxAngle) return false;
+  }
+  return true;
+};
+
+// Nearly horizontal / vertical directions snap exactly
+const snapAngle = (rad: number) => {
+  const quarter = Math.PI / 2;
+  const nearest = Math.round(rad / quarter) * quarter;
+  return Math.abs(rad - nearest) <= SMART_INK.axisSnap * Math.PI / 180 ? nearest : rad;
+};
+
+// --- SHAPES ---
+
+const fitRectangle = (pts: Point[], corners: Point[]): Point[] => {
+  // Orient along the longest side, then take the extent of the ink in that frame
+  let longest = 0;
+  let angle = 0;
+  corners.forEach((c, i) => {
+    const next = corners[(i + 1) % corners.length];
+    if (dist(c, next) > longest) {
+      longest = dist(c, next);
+      angle = Math.atan2(next.y - c.y, next.x - c.x);
+    }
+  });
+  angle = snapAngle(angle);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+  for (const c of corners) {
+    const u = c.x * cos + c.y * sin;
+    const v = -c.x * sin + c.y * cos;
+    minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+  }
+  const toWorld = (u: number, v: number) => ({ x: u * cos - v * sin, y: u * sin + v * cos });
+  const rect = [toWorld(minU, minV), toWorld(maxU, minV), toWorld(maxU, maxV), toWorld(minU, maxV)];
+  // Start at the corner nearest to where the pen started
+  const start = rect.reduce((best, c, i) => (dist(c, pts[0]) < dist(rect[best], pts[0]) ? i : best), 0);
+  const ordered = [...rect.slice(start), ...rect.slice(0, start)];
+  return [...ordered, ordered[0]];
+};
+
+// Principal axes of the resampled outline; a uniformly traced ellipse has variance r^2 / 2 along each axis
+const fitEllipse = (pts: Point[]): RecognizedShape | null => {
+  const n = pts.length;
+  const cx = pts.reduce((s, p) => s + p.x, 0) / n;
+  const cy = pts.reduce((s, p) => s + p.y, 0) / n;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const p of pts) {
+    sxx += (p.x - cx) ** 2;
+    syy += (p.y - cy) ** 2;
+    sxy += (p.x - cx) * (p.y - cy);
+  }
+  sxx /= n; syy /= n; sxy /= n;
+  const angle = snapAngle(0.5 * Math.atan2(2 * sxy, sxx - syy));
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  let varU = 0, varV = 0;
+  for (const p of pts) {
+    varU += ((p.x - cx) * cos + (p.y - cy) * sin) ** 2;
+    varV += (-(p.x - cx) * sin + (p.y - cy) * cos) ** 2;
+  }
+  let rx = Math.sqrt((2 * varU) / n);
+  let ry = Math.sqrt((2 * varV) / n);
+  if (ry < 1 || rx < 1) return null;
+
+  // How far the ink strays from the fitted outline (0 = exactly on it)
+  let error = 0;
+  for (const p of pts) {
+    const u = (p.x - cx) * cos + (p.y - cy) * sin;
+    const v = -(p.x - cx) * sin + (p.y - cy) * cos;
+    error += Math.abs(Math.hypot(u / rx, v / ry) - 1);
+  }
+  if (error / n > SMART_INK.ellipseTolerance) return null;
+
+  // Going round more than about once is a scribble, not an outline (Ramanujan's perimeter)
+  const perimeter = Math.PI * (3 * (rx + ry) - Math.sqrt((3 * rx + ry) * (rx + 3 * ry)));
+  if (pathLength(pts) > perimeter * 1.3) return null;
+
+  const circle = Math.min(rx, ry) / Math.max(rx, ry) >= SMART_INK.circleRatio;
+  if (circle) rx = ry = (rx + ry) / 2;
+  const points: Point[] = [];
+  for (let i = 0; i <= SMART_INK.ellipseSegments; i++) {
+    const t = (i / SMART_INK.ellipseSegments) * Math.PI * 2;
+    const u = rx * Math.cos(t);
+    const v = ry * Math.sin(t);
+    points.push({ x: cx + u * cos - v * sin, y: cy + u * sin + v * cos });
+  }
+  return { kind: circle ? 'circle' : 'ellipse', points };
+};
+
+// Shaft, then a head drawn from the tip: S -> T -> barb (-> T -> barb)
+const fitArrow = (corners: Point[]): RecognizedShape | null => {
+  if (corners.length < 3 || corners.length > 5) return null;
+  const [start, tip, barb] = corners;
+  const shaft = dist(start, tip);
+  const head = dist(tip, barb);
+  if (head > shaft * 0.5 || head < shaft * 0.08) return null;
+  const spread = cornerAngle(start, tip, barb);
+  if (spread < 10 || spread > 75) return null;
+  // Whatever follows the first barb must stay around the head
+  if (corners.slice(3).some(p => dist(p, tip) > head * 1.5)) return null;
+
+  const along = Math.atan2(start.y - tip.y, start.x - tip.x);
+  const opening = spread * Math.PI / 180;
+  const barbAt = (a: number) => ({ x: tip.x + head * Math.cos(a), y: tip.y + head * Math.sin(a) });
+  return { kind: 'arrow', points: [start, tip, barbAt(along + opening), tip, barbAt(along - opening)] };
+};
+
+export const recognizeShape = (stroke: Stroke): RecognizedShape | null => {
+  const raw = stroke.points;
+  if (raw.length < 2) return null;
+  const minX = Math.min(...raw.map(p => p.x));
+  const maxX = Math.max(...raw.map(p => p.x));
+  const minY = Math.min(...raw.map(p => p.y));
+  const maxY = Math.max(...raw.map(p => p.y));
+  const size = Math.hypot(maxX - minX, maxY - minY);
+  if (size < SMART_INK.minSize) return null; // Dots, letters and small marks stay ink
+
+  const pts = resample(raw, SMART_INK.samples);
+  const length = pathLength(pts);
+  const epsilon = Math.max(2, SMART_INK.tolerance * size);
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+
+  // Straight line
+  if (dist(first, last) >= length * 0.9 && pts.every(p => distanceToSegment(p, first, last) <= epsilon)) {
+    const angle = snapAngle(Math.atan2(last.y - first.y, last.x - first.x));
+    const len = dist(first, last);
+    return { kind: 'line', points: [first, { x: first.x + len * Math.cos(angle), y: first.y + len * Math.sin(angle) }] };
+  }
+
+  const closed = dist(first, last) <= Math.max(SMART_INK.closeGap, size * 0.15);
+  if (closed) {
+    const corners = closedCorners(pts, epsilon);
+    if (corners.length === 4 && corners.every((c, i) => Math.abs(cornerAngle(corners[(i + 3) % 4], c, corners[(i + 1) % 4]) - 90) <= SMART_INK.rightAngleTolerance)) {
+      return { kind: 'rectangle', points: fitRectangle(pts, corners) };
+    }
+    if (corners.length === 3 || corners.length === 4) return { kind: 'polygon', points: [...corners, corners[0]] };
+    const ellipse = fitEllipse(pts.slice(0, -1));
+    if (ellipse) return ellipse;
+    if (corners.length <= SMART_INK.maxCorners) return { kind: 'polygon', points: [...corners, corners[0]] };
+    return null;
+  }
+
+  const corners = simplify(pts, epsilon);
+  const arrow = fitArrow(corners);
+  if (arrow) return arrow;
+  if (corners.length <= SMART_INK.maxCorners && isPolyline(pts, corners)) return { kind: 'polyline', points: corners };
+  return null;
+};
+
+// Clean stroke with the same id and look as the ink it replaces
+export const applyRecognizedShape = (stroke: Stroke, shape: RecognizedShape): Stroke => ({
+  ...stroke,
+  shape: shape.kind,
+  points: shape.points.map(p => ({ x: p.x, y: p.y }))
+});
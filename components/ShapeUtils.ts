@@ -0,0 +1,154 @@
+import { CanvasItem, Point, ShapeItem, ShapeTool } from "../types";
+import { v4 as uuidv4 } from 'uuid';
+
+// Shape tools: geometry of lines, arrows, rectangles, ellipses and polygons.
+// Rectangles and ellipses keep all four box corners, so they can be rotated like any other item.
+
+export const isShape = (item: CanvasItem): item is ShapeItem => item.type === 'shape';
+
+export const isClosedShape = (shape: ShapeItem) => shape.kind !== 'line' && shape.kind !== 'arrow';
+
+export const createShape = (kind: ShapeTool, start: Point, style: Omit<ShapeItem, 'id' | 'type' | 'kind' | 'points'>): ShapeItem => {
+  const p = { x: start.x, y: start.y };
+  const count = kind === 'rectangle' || kind === 'ellipse' ? 4 : 2; // polygons start with a floating second vertex
+  return { id: uuidv4(), type: 'shape', kind, points: Array.from({ length: count }, () => ({ ...p })), ...style };
+};
+
+// Shift: lines in 45° steps
+const constrainAngle = (from: Point, to: Point): Point => {
+  const step = Math.PI / 4;
+  const angle = Math.round(Math.atan2(to.y - from.y, to.x - from.x) / step) * step;
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return { x: from.x + length * Math.cos(angle), y: from.y + length * Math.sin(angle) };
+};
+
+// Shift: squares and circles
+const constrainSquare = (u: number, v: number) => {
+  const side = Math.max(Math.abs(u), Math.abs(v));
+  return { u: Math.sign(u || 1) * side, v: Math.sign(v || 1) * side };
+};
+
+// Points of a shape being dragged out from `start` to `end`
+export const dragShape = (shape: ShapeItem, start: Point, end: Point, constrain: boolean): ShapeItem => {
+  if (shape.kind === 'rectangle' || shape.kind === 'ellipse') {
+    const size = constrain ? constrainSquare(end.x - start.x, end.y - start.y) : { u: end.x - start.x, v: end.y - start.y };
+    const far = { x: start.x + size.u, y: start.y + size.v };
+    return { ...shape, points: [start, { x: far.x, y: start.y }, far, { x: start.x, y: far.y }] };
+  }
+  if (shape.kind === 'polygon') {
+    // Only the floating last vertex follows the pointer
+    const fixed = shape.points.slice(0, -1);
+    const from = fixed[fixed.length - 1];
+    return { ...shape, points: [...fixed, constrain ? constrainAngle(from, end) : end] };
+  }
+  return { ...shape, points: [start, constrain ? constrainAngle(start, end) : end] };
+};
+
+// Box frame of a rectangle / ellipse: rotation from its first edge
+const boxAngle = (shape: ShapeItem) => {
+  const [a, b] = shape.points;
+  return Math.hypot(b.x - a.x, b.y - a.y) < 1e-9 ? 0 : Math.atan2(b.y - a.y, b.x - a.x);
+};
+
+// Drag one vertex; boxes stay rectangular with the opposite corner pinned
+export const moveShapeVertex = (shape: ShapeItem, index: number, p: Point, constrain: boolean): ShapeItem => {
+  const points = shape.points.map(q => ({ ...q }));
+  if (shape.kind === 'line' || shape.kind === 'arrow') {
+    points[index] = constrain ? constrainAngle(points[1 - index], p) : { x: p.x, y: p.y };
+    return { ...shape, points };
+  }
+  if (shape.kind === 'polygon') {
+    const prev = points[(index + points.length - 1) % points.length];
+    points[index] = constrain ? constrainAngle(prev, p) : { x: p.x, y: p.y };
+    return { ...shape, points };
+  }
+
+  const angle = boxAngle(shape);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const pinned = points[(index + 2) % 4];
+  const dx = p.x - pinned.x;
+  const dy = p.y - pinned.y;
+  let u = dx * cos + dy * sin;
+  let v = -dx * sin + dy * cos;
+  if (constrain) ({ u, v } = constrainSquare(u, v));
+  const at = (lu: number, lv: number) => ({ x: pinned.x + lu * cos - lv * sin, y: pinned.y + lu * sin + lv * cos });
+
+  // Edges 0-1 and 2-3 run along the frame's u axis, 1-2 and 3-0 along v
+  const even = index % 2 === 0;
+  points[index] = at(u, v);
+  points[(index + 1) % 4] = even ? at(0, v) : at(u, 0);
+  points[(index + 3) % 4] = even ? at(u, 0) : at(0, v);
+  return { ...shape, points };
+};
+
+export const getEllipseGeometry = (shape: ShapeItem) => {
+  const [a, b, c] = shape.points;
+  return {
+    center: { x: (a.x + c.x) / 2, y: (a.y + c.y) / 2 },
+    rx: Math.hypot(b.x - a.x, b.y - a.y) / 2,
+    ry: Math.hypot(c.x - b.x, c.y - b.y) / 2,
+    angle: boxAngle(shape)
+  };
+};
+
+// Polyline along the drawn outline (closed shapes repeat their first point)
+export const getShapeOutline = (shape: ShapeItem): Point[] => {
+  if (shape.kind === 'ellipse') {
+    const { center, rx, ry, angle } = getEllipseGeometry(shape);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const outline: Point[] = [];
+    for (let i = 0; i <= 48; i++) {
+      const t = (i / 48) * Math.PI * 2;
+      const u = rx * Math.cos(t);
+      const v = ry * Math.sin(t);
+      outline.push({ x: center.x + u * cos - v * sin, y: center.y + u * sin + v * cos });
+    }
+    return outline;
+  }
+  return isClosedShape(shape) ? [...shape.points, shape.points[0]] : shape.points;
+};
+
+// Barb ends of an arrowhead pointing at `tip`
+export const getArrowHead = (from: Point, tip: Point, width: number): [Point, Point] => {
+  const size = Math.max(10, width * 4);
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: tip.x - size * Math.cos(angle - spread), y: tip.y - size * Math.sin(angle - spread) },
+    { x: tip.x - size * Math.cos(angle + spread), y: tip.y - size * Math.sin(angle + spread) }
+  ];
+};
+
+// Shortest distance from p to the segment a-b
+export const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const isInsidePolygon = (p: Point, poly: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// On the outline, or anywhere inside a filled shape
+export const hitTestShape = (shape: ShapeItem, p: Point, tolerance: number) => {
+  const outline = getShapeOutline(shape);
+  for (let i = 1; i < outline.length; i++) {
+    if (distanceToSegment(p, outline[i - 1], outline[i]) <= shape.width / 2 + tolerance) return true;
+  }
+  return !!shape.fill && isClosedShape(shape) && isInsidePolygon(p, outline);
+};
+
+// Index of the vertex handle under `p`, or -1
+export const findShapeVertex = (shape: ShapeItem, p: Point, reach: number) =>
+  shape.points.findIndex(q => Math.hypot(q.x - p.x, q.y - p.y) <= reach);
@@ -0,0 +1,65 @@
+import { CanvasItem, Point, Stroke, Widget } from "../types";
+import { boundsAround, getSpatialIndex } from "./SpatialIndex";
+import { isGeometry, isGeometryPoint } from "./Geometry";
+
+// Point snapping (compass needle etc.): stroke endpoints, crossings between strokes, geometry points
+// and the protractor vertex
+
+const segmentIntersection = (a: Point, b: Point, c: Point, d: Point): Point | null => {
+  const r = { x: b.x - a.x, y: b.y - a.y };
+  const s = { x: d.x - c.x, y: d.y - c.y };
+  const denom = r.x * s.y - r.y * s.x;
+  if (Math.abs(denom) < 1e-9) return null; // parallel
+  const t = ((c.x - a.x) * s.y - (c.y - a.y) * s.x) / denom;
+  const u = ((c.x - a.x) * r.y - (c.y - a.y) * r.x) / denom;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return { x: a.x + t * r.x, y: a.y + t * r.y };
+};
+
+export const findSnapTarget = (items: CanvasItem[], p: Point, threshold: number): Point | null => {
+  const area = boundsAround(p.x, p.y, threshold);
+  const nearby = getSpatialIndex(items).query(area);
+  const candidates: Point[] = [];
+
+  // Segments passing near the point, per stroke
+  const segments: { owner: string, a: Point, b: Point }[] = [];
+  for (const item of nearby) {
+    if (item.type === 'protractor') {
+      candidates.push({ x: (item as Widget).x, y: (item as Widget).y });
+      continue;
+    }
+    if (isGeometry(item)) {
+      if (isGeometryPoint(item) && item.defined) candidates.push(item.anchors[0]);
+      continue;
+    }
+    if (item.type !== 'stroke') continue;
+    const pts = (item as Stroke).points;
+    candidates.push(pts[0], pts[pts.length - 1]);
+    for (let i = 1; i < pts.length; i++) {
+      const a = pts[i - 1];
+      const b = pts[i];
+      if (Math.max(a.x, b.x) < area.minX || Math.min(a.x, b.x) > area.maxX) continue;
+      if (Math.max(a.y, b.y) < area.minY || Math.min(a.y, b.y) > area.maxY) continue;
+      segments.push({ owner: item.id, a, b });
+    }
+  }
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      if (segments[i].owner === segments[j].owner) continue;
+      const hit = segmentIntersection(segments[i].a, segments[i].b, segments[j].a, segments[j].b);
+      if (hit) candidates.push(hit);
+    }
+  }
+
+  let best: Point | null = null;
+  let bestDist = threshold;
+  for (const c of candidates) {
+    const dist = Math.hypot(c.x - p.x, c.y - p.y);
+    if (dist <= bestDist) {
+      best = { x: c.x, y: c.y };
+      bestDist = dist;
+    }
+  }
+  return best;
+};
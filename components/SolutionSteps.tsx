@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AIResult } from '../types';
+import { FaEye, FaEyeSlash, FaPlus, FaForward } from 'react-icons/fa';
+
+interface SolutionStepsProps {
+  result: AIResult;
+  streaming: boolean;
+  onInsertStep: (index: number) => void;
+  onInsertAll: () => void;
+}
+
+// Basic markdown bold support if model outputs it
+const toHtml = (text: string) => text
+  .replace(/\n/g, '<br/>')
+  .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+
+// Typeset once complete; memo keeps React from resetting MathJax's output on later renders
+const MathBlock: React.FC<{ text: string, complete: boolean, className?: string }> = React.memo(({ text, complete, className }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const mj = (window as any).MathJax;
+    if (complete && ref.current && mj?.typesetPromise) mj.typesetPromise([ref.current]).catch(() => undefined);
+  }, [text, complete]);
+  return <div ref={ref} className={className} dangerouslySetInnerHTML={{ __html: toHtml(text) }} />;
+});
+
+const InsertButton: React.FC<{ onClick: () => void, label: string }> = ({ onClick, label }) => (
+  <button
+    onClick={onClick}
+    className="shrink-0 text-xs text-teal-700 border border-teal-200 hover:bg-teal-50 px-2 py-0.5 rounded flex items-center gap-1 transition"
+    title="Insert on the board as text"
+  >
+    <FaPlus size={9} /> {label}
+  </button>
+);
+
+// Numbered steps as they stream in (the one still being written stays raw text). In reveal mode
+// the class sees one step at a time, then the answer.
+const SolutionSteps: React.FC<SolutionStepsProps> = ({ result, streaming, onInsertStep, onInsertAll }) => {
+  const [reveal, setReveal] = useState(false);
+  const [revealed, setRevealed] = useState(1);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { steps, answer } = result;
+  const parts = steps.length + (answer ? 1 : 0);
+  const shown = reveal ? revealed : parts;
+
+  useEffect(() => {
+    if (streaming && !reveal) endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [result, streaming, reveal]);
+
+  // Models that ignore the step layout: one paragraph per block, as before
+  if (steps.length === 0 && !answer) {
+    const paragraphs = result.solution.split(/\n\s*\n/).filter(p => p.trim());
+    return (
+      <div className="prose prose-slate max-w-none">
+        {paragraphs.map((p, i) => (
+          <MathBlock key={i} text={p} complete={!streaming || i < paragraphs.length - 1} className="mb-4" />
+        ))}
+        {streaming && <span className="inline-block w-2 h-4 bg-teal-500 animate-pulse align-middle" />}
+        <div ref={endRef} />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        <button
+          onClick={() => { setReveal(!reveal); setRevealed(1); }}
+          className={`px-3 py-1 rounded-full border flex items-center gap-1 transition ${reveal ? 'bg-teal-600 border-teal-600 text-white' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+          title="Show one step at a time"
+        >
+          {reveal ? <FaEyeSlash /> : <FaEye />} Reveal mode
+        </button>
+        {reveal && (
+          <>
+            <button
+              onClick={() => setRevealed(r => r + 1)}
+              disabled={revealed >= parts}
+              className="px-3 py-1 rounded-full bg-teal-50 text-teal-700 border border-teal-200 hover:bg-teal-100 disabled:opacity-50 flex items-center gap-1 transition"
+            >
+              <FaForward size={10} /> {revealed < steps.length ? 'Next step' : 'Show answer'}
+            </button>
+            <button onClick={() => setRevealed(parts)} className="text-xs text-slate-500 hover:text-slate-700 underline">Show all</button>
+          </>
+        )}
+        <div className="flex-1" />
+        {!streaming && <InsertButton onClick={onInsertAll} label="Insert all" />}
+      </div>
+
+      {steps.slice(0, shown).map((step, i) => {
+        const complete = !streaming || i < steps.length - 1 || !!answer;
+        return (
+          <div key={i} className="mb-4 border border-slate-200 rounded-lg p-4">
+            <div className="flex items-start gap-3 mb-2">
+              <span className="shrink-0 w-6 h-6 rounded-full bg-teal-600 text-white text-xs font-bold flex items-center justify-center">{i + 1}</span>
+              <MathBlock text={step.title} complete={complete} className="flex-1 font-semibold text-slate-800" />
+              {complete && <InsertButton onClick={() => onInsertStep(i)} label="Insert" />}
+            </div>
+            {step.body && <MathBlock text={step.body} complete={complete} className="pl-9 text-lg text-slate-900" />}
+            {step.explanation && <MathBlock text={step.explanation} complete={complete} className="pl-9 mt-1 text-sm text-slate-500" />}
+          </div>
+        );
+      })}
+
+      {reveal && shown < parts && (
+        <div className="mb-4 border-2 border-dashed border-slate-200 rounded-lg p-4 text-center text-slate-400 text-sm">
+          {shown < steps.length ? `Step ${shown + 1} is hidden` : 'The answer is hidden'}
+        </div>
+      )}
+
+      {answer && shown >= parts && (
+        <div className="border-2 border-teal-500 bg-teal-50 rounded-lg p-4 flex items-center gap-3">
+          <span className="font-bold text-teal-700">Answer</span>
+          <MathBlock text={answer} complete={!streaming} className="flex-1 text-lg text-slate-900" />
+        </div>
+      )}
+      {streaming && !reveal && <span className="inline-block w-2 h-4 bg-teal-500 animate-pulse align-middle" />}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default SolutionSteps;
@@ -0,0 +1,97 @@
+import { Bounds, CanvasItem, Widget } from "../types";
+import { SPATIAL_CELL_SIZE, SPATIAL_MAX_CELLS } from "../constants";
+import { getItemBounds } from "./CanvasUtils";
+import { isUnbounded } from "./Geometry";
+
+// Uniform grid over item bounds, so eraser, hit tests and rendering only look at what is nearby
+
+export interface SpatialIndex {
+  // Visible items whose bounds intersect `bounds`, in paint order (bottom first)
+  query: (bounds: Bounds) => CanvasItem[];
+}
+
+const intersects = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export const buildSpatialIndex = (items: CanvasItem[], cellSize = SPATIAL_CELL_SIZE): SpatialIndex => {
+  const cells = new Map<string, number[]>();
+  const oversized: number[] = []; // huge images, lines and rays are always candidates
+  const bounds: Bounds[] = [];
+
+  items.forEach((item, idx) => {
+    if ((item as Widget).visible === false) return;
+    // Lines and rays are drawn across the whole view, far beyond their anchors' bounds
+    if (isUnbounded(item)) {
+      bounds[idx] = { minX: -Infinity, minY: -Infinity, maxX: Infinity, maxY: Infinity };
+      oversized.push(idx);
+      return;
+    }
+    const b = getItemBounds(item);
+    if (!Number.isFinite(b.minX)) return; // empty stroke
+    bounds[idx] = b;
+
+    const x0 = Math.floor(b.minX / cellSize), x1 = Math.floor(b.maxX / cellSize);
+    const y0 = Math.floor(b.minY / cellSize), y1 = Math.floor(b.maxY / cellSize);
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > SPATIAL_MAX_CELLS) {
+      oversized.push(idx);
+      return;
+    }
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = `${cx},${cy}`;
+        const cell = cells.get(key);
+        if (cell) cell.push(idx);
+        else cells.set(key, [idx]);
+      }
+    }
+  });
+
+  const query = (area: Bounds) => {
+    const x0 = Math.floor(area.minX / cellSize), x1 = Math.floor(area.maxX / cellSize);
+    const y0 = Math.floor(area.minY / cellSize), y1 = Math.floor(area.maxY / cellSize);
+    const found = new Set<number>(oversized);
+
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > cells.size) {
+      // Area larger than the populated grid: walking the cells we have is cheaper
+      cells.forEach(cell => cell.forEach(idx => found.add(idx)));
+    } else {
+      for (let cx = x0; cx <= x1; cx++) {
+        for (let cy = y0; cy <= y1; cy++) {
+          cells.get(`${cx},${cy}`)?.forEach(idx => found.add(idx));
+        }
+      }
+    }
+
+    return [...found]
+      .filter(idx => intersects(bounds[idx], area))
+      .sort((a, b) => a - b)
+      .map(idx => items[idx]);
+  };
+
+  return { query };
+};
+
+// Item arrays are replaced (never mutated) on every change, so the array itself is the cache key
+let indexCache = new WeakMap<CanvasItem[], SpatialIndex>();
+
+// Text and image bounds change once formulas are typeset or images load, without a new items array
+export const invalidateSpatialIndex = () => {
+  indexCache = new WeakMap();
+};
+
+export const getSpatialIndex = (items: CanvasItem[]): SpatialIndex => {
+  let index = indexCache.get(items);
+  if (!index) {
+    index = buildSpatialIndex(items);
+    indexCache.set(items, index);
+  }
+  return index;
+};
+
+// Square around a point, e.g. the eraser tip
+export const boundsAround = (x: number, y: number, radius: number): Bounds => ({
+  minX: x - radius,
+  minY: y - radius,
+  maxX: x + radius,
+  maxY: y + radius
+});
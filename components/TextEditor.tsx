@@ -0,0 +1,124 @@
+import React, { useEffect, useRef } from 'react';
+import { Viewport, Widget } from '../types';
+import { COLORS, TEXT_FONT_SIZES } from '../constants';
+import { drawTextWidget, worldToScreen } from './CanvasUtils';
+import { getTextBox, getTextStyle } from './MathText';
+import { FaBold, FaCheck } from 'react-icons/fa';
+
+interface TextEditorProps {
+  widget: Widget; // draft being edited
+  viewport: Viewport;
+  onChange: (patch: Partial<Widget>) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_MAX_WIDTH = 480;
+
+// Live, typeset preview of the draft (same renderer as the board)
+const TextPreview: React.FC<{ widget: Widget }> = ({ widget }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const draft: Widget = { ...widget, x: 0, y: 0, angle: 0, selected: false };
+    const box = getTextBox(draft);
+    const scale = Math.min(1, PREVIEW_MAX_WIDTH / box.w);
+    canvas.width = Math.ceil(box.w * scale);
+    canvas.height = Math.ceil(box.h * scale);
+    ctx.setTransform(scale, 0, 0, scale, -box.x * scale, -box.y * scale);
+    drawTextWidget(ctx, draft);
+  });
+
+  return <canvas ref={canvasRef} className="block max-w-full" />;
+};
+
+const TextEditor: React.FC<TextEditorProps> = ({ widget, viewport, onChange, onCommit, onCancel }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { fontSize, color } = getTextStyle(widget);
+  const pos = worldToScreen(widget.x, widget.y, viewport);
+  const hasMath = /\$[^$]+\$/.test(widget.text || '');
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation(); // Keep board shortcuts (undo, space-pan...) out of the editor
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onCommit();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-20"
+      style={{ left: pos.x - 5, top: pos.y - fontSize * viewport.zoom - 44 }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      {/* Font Controls */}
+      <div className="bg-white shadow-lg border border-slate-200 rounded-lg p-1 mb-1 flex items-center gap-1 w-max" onMouseDown={(e) => { if ((e.target as HTMLElement).tagName !== 'SELECT') e.preventDefault(); }}>
+        <select
+          className="text-xs border rounded px-1 py-0.5"
+          value={fontSize}
+          onChange={(e) => onChange({ fontSize: Number(e.target.value) })}
+          title="Font Size"
+        >
+          {TEXT_FONT_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+        </select>
+        {COLORS.map(c => (
+          <button
+            key={c}
+            className={`w-5 h-5 rounded-full border-2 ${color === c ? 'border-slate-900' : 'border-transparent'}`}
+            style={{ backgroundColor: c }}
+            onClick={() => onChange({ color: c })}
+          />
+        ))}
+        <button
+          className={`p-1 rounded ${widget.bold ? 'bg-slate-200' : 'hover:bg-slate-100'}`}
+          onClick={() => onChange({ bold: !widget.bold })}
+          title="Bold"
+        >
+          <FaBold size={12} />
+        </button>
+        <span className="text-[10px] text-slate-400 px-1">$...$ = math • Ctrl+Enter = done</span>
+        <button className="p-1 rounded bg-teal-600 text-white hover:bg-teal-700" onClick={onCommit} title="Done">
+          <FaCheck size={12} />
+        </button>
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={widget.text || ''}
+        onChange={(e) => onChange({ text: e.target.value })}
+        onKeyDown={handleKeyDown}
+        rows={Math.max(1, (widget.text || '').split('\n').length)}
+        placeholder="Type text or $\frac{a}{b}$"
+        className="block bg-white/95 border-2 border-teal-500 rounded p-1 outline-none resize shadow"
+        style={{
+          fontSize: fontSize * viewport.zoom,
+          color,
+          fontWeight: widget.bold ? 'bold' : 'normal',
+          fontFamily: 'sans-serif',
+          lineHeight: 1.3,
+          minWidth: 160
+        }}
+      />
+
+      {hasMath && (
+        <div className="mt-1 bg-white border border-slate-200 rounded shadow p-2">
+          <TextPreview widget={widget} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextEditor;
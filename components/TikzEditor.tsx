@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Widget } from '../types';
+import { compileTikz } from '../services/tikzService';
+import TikzRendererPanel from './TikzRendererPanel';
+import { FaChartLine, FaCopy, FaSyncAlt } from 'react-icons/fa';
+
+interface TikzEditorProps {
+  widget: Widget;
+  onSave: (widget: Widget) => void;
+  onCancel: () => void;
+}
+
+const DIAGRAM_LABELS: Record<string, string> = { bbt: 'Table', graph: 'Graph', chart: 'Chart' };
+
+const loadImageSize = (src: string) => new Promise<{ width: number, height: number }>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth || img.width, height: img.naturalHeight || img.height });
+  img.onerror = () => reject(new Error('The renderer returned an unreadable image'));
+  img.src = src;
+});
+
+// Code on the left, compiled preview on the right; saving keeps the widget's position, angle and scale
+const TikzEditor: React.FC<TikzEditorProps> = ({ widget, onSave, onCancel }) => {
+  const source = widget.tikz!;
+  const [code, setCode] = useState(source.code);
+  const [preview, setPreview] = useState({ code: source.code, src: widget.src || '', width: widget.width, height: widget.height });
+  const [compiling, setCompiling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const recompile = async () => {
+    setCompiling(true);
+    setError(null);
+    try {
+      const { src } = await compileTikz(code);
+      const size = await loadImageSize(src);
+      const next = { code, src, ...size };
+      setPreview(next);
+      return next;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return null;
+    } finally {
+      setCompiling(false);
+    }
+  };
+
+  const save = async () => {
+    const compiled = code === preview.code ? preview : await recompile();
+    if (!compiled) return;
+    onSave({
+      ...widget,
+      src: compiled.src,
+      width: compiled.width,
+      height: compiled.height,
+      tikz: { ...source, code: compiled.code }
+    });
+  };
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      if (!compiling) recompile();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-[1000px] max-w-[95vw] max-h-[90vh] flex flex-col p-6">
+        <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+          <FaChartLine className="text-teal-600"/> Edit TikZ Diagram
+          <span className="text-xs font-medium px-2 py-0.5 rounded bg-teal-50 text-teal-700">{DIAGRAM_LABELS[source.diagramType] || source.diagramType}</span>
+        </h2>
+        {source.description && <p className="mb-3 text-sm text-slate-500 truncate" title={source.description}>{source.description}</p>}
+
+        <TikzRendererPanel />
+
+        <div className="flex-1 min-h-0 grid grid-cols-2 gap-4">
+          <textarea
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            className="h-[50vh] p-3 border rounded font-mono text-xs resize-none focus:ring-2 focus:ring-teal-500 outline-none"
+          />
+          <div className="h-[50vh] border rounded bg-slate-50 flex items-center justify-center overflow-auto relative">
+            {preview.src && <img src={preview.src} alt="Preview" className={`max-w-full max-h-full object-contain ${compiling ? 'opacity-40' : ''}`} />}
+            {code !== preview.code && !compiling && (
+              <span className="absolute top-2 right-2 text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-700">Not recompiled yet</span>
+            )}
+          </div>
+        </div>
+
+        {error && <pre className="mt-3 max-h-32 overflow-auto text-xs text-red-600 bg-red-50 p-2 rounded whitespace-pre-wrap">{error}</pre>}
+
+        <div className="mt-4 flex items-center gap-2">
+          <button onClick={copy} className="px-3 py-2 text-sm border rounded hover:bg-slate-50 flex items-center gap-2">
+            <FaCopy/> {copied ? 'Copied' : 'Copy code'}
+          </button>
+          <button
+            onClick={recompile}
+            disabled={compiling}
+            className="px-3 py-2 text-sm border rounded hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2"
+            title="Recompile (Ctrl+Enter)"
+          >
+            <FaSyncAlt className={compiling ? 'animate-spin' : ''}/> Recompile
+          </button>
+          <div className="flex-1" />
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={compiling}
+            className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TikzEditor;
@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { TikzFormat, TikzRendererStatus } from '../types';
+import { DEFAULT_TIKZ_SETTINGS, getTikzSettings, getTikzStatus, saveTikzSettings, subscribeTikzStatus, testTikzRenderer } from '../services/tikzService';
+import { FaCog } from 'react-icons/fa';
+
+// Renderer status line plus the (per machine) endpoint settings, shown in the TikZ modal
+
+const STATUS_STYLES: Record<TikzRendererStatus, { dot: string, label: string }> = {
+  idle: { dot: 'bg-slate-300', label: 'Renderer not contacted yet' },
+  compiling: { dot: 'bg-amber-400 animate-pulse', label: 'Compiling...' },
+  ready: { dot: 'bg-green-500', label: 'Renderer ready' },
+  error: { dot: 'bg-red-500', label: 'Last compilation failed' },
+  offline: { dot: 'bg-red-500', label: 'Renderer unreachable' }
+};
+
+const FORMATS: TikzFormat[] = ['png', 'svg'];
+
+const TikzRendererPanel: React.FC = () => {
+  const [status, setStatus] = useState(getTikzStatus());
+  const [settings, setSettings] = useState(getTikzSettings());
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => subscribeTikzStatus(() => setStatus(getTikzStatus())), []);
+
+  const update = (patch: Partial<typeof settings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const apply = () => setSettings(saveTikzSettings(settings));
+  const style = STATUS_STYLES[status.state];
+
+  return (
+    <div className="mb-4 text-sm">
+      <div className="flex items-center gap-2">
+        <span className={`w-2.5 h-2.5 rounded-full ${style.dot}`} />
+        <span className="text-slate-600">{style.label}</span>
+        <button
+          onClick={() => setOpen(!open)}
+          className={`ml-auto p-1.5 rounded hover:bg-slate-100 ${open ? 'text-teal-600' : 'text-slate-400'}`}
+          title="Renderer settings"
+        >
+          <FaCog/>
+        </button>
+      </div>
+      {status.message && status.state !== 'compiling' && (
+        <p className="mt-1 text-xs text-slate-500 break-words line-clamp-3">{status.message}</p>
+      )}
+
+      {open && (
+        <div className="mt-2 p-3 border rounded-lg bg-slate-50 space-y-2">
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-700 mb-1">Renderer URL</span>
+            <input
+              value={settings.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              onBlur={apply}
+              placeholder={DEFAULT_TIKZ_SETTINGS.baseUrl}
+              className="w-full border rounded px-2 py-1 font-mono text-xs"
+            />
+          </label>
+          <div className="flex items-end gap-3">
+            <label>
+              <span className="block text-xs font-medium text-slate-700 mb-1">Format</span>
+              <select
+                value={settings.format}
+                onChange={(e) => setSettings(saveTikzSettings({ ...settings, format: e.target.value as TikzFormat }))}
+                className="border rounded px-2 py-1"
+              >
+                {FORMATS.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className="block text-xs font-medium text-slate-700 mb-1">Timeout (s)</span>
+              <input
+                type="number"
+                min={5}
+                value={Math.round(settings.timeoutMs / 1000)}
+                onChange={(e) => update({ timeoutMs: Number(e.target.value) * 1000 })}
+                onBlur={apply}
+                className="w-20 border rounded px-2 py-1"
+              />
+            </label>
+            <button
+              onClick={() => { apply(); testTikzRenderer().catch(() => undefined); }}
+              disabled={status.state === 'compiling'}
+              className="ml-auto px-3 py-1 border rounded bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              Test connection
+            </button>
+          </div>
+          <button onClick={() => setSettings(saveTikzSettings(DEFAULT_TIKZ_SETTINGS))} className="text-xs text-teal-700 hover:underline">
+            Reset to the hosted renderer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TikzRendererPanel;
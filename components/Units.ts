@@ -0,0 +1,62 @@
+import { LengthUnit, UnitSettings } from "../types";
+import { DEFAULT_PX_PER_CM, MIN_PX_PER_CM, MAX_PX_PER_CM } from "../constants";
+
+// Real-world lengths on the board. Settings belong to the display, so they live in localStorage, not in the board file.
+
+const STORAGE_KEY = 'teaching-board:units';
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = {
+  unit: 'cm',
+  pxPerCm: DEFAULT_PX_PER_CM,
+  dimensionLabels: false
+};
+
+// Tick layout per unit: `minor` is the smallest tick (in units), `mid` and `major` are multiples of it
+export const UNIT_SCALES: Record<LengthUnit, { label: string, cmPerUnit: number, minor: number, mid: number, major: number, decimals: number }> = {
+  cm: { label: 'cm', cmPerUnit: 1, minor: 0.1, mid: 5, major: 10, decimals: 1 },
+  mm: { label: 'mm', cmPerUnit: 0.1, minor: 1, mid: 5, major: 10, decimals: 0 },
+  in: { label: 'in', cmPerUnit: 2.54, minor: 0.125, mid: 4, major: 8, decimals: 2 }
+};
+
+const loadUnitSettings = (): UnitSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_UNIT_SETTINGS, ...saved } : DEFAULT_UNIT_SETTINGS;
+  } catch {
+    return DEFAULT_UNIT_SETTINGS;
+  }
+};
+
+let current = loadUnitSettings();
+
+// Read by the tool renderers (ruler, set square, compass readout)
+export const getUnitSettings = () => current;
+
+export const saveUnitSettings = (settings: UnitSettings) => {
+  current = { ...settings, pxPerCm: Math.max(MIN_PX_PER_CM, Math.min(MAX_PX_PER_CM, settings.pxPerCm)) };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  return current;
+};
+
+export const getPxPerUnit = (settings = current) => settings.pxPerCm * UNIT_SCALES[settings.unit].cmPerUnit;
+
+// "12.5 cm", "125 mm", "4.92 in"
+export const formatLength = (px: number, settings = current) => {
+  const scale = UNIT_SCALES[settings.unit];
+  return `${(px / getPxPerUnit(settings)).toFixed(scale.decimals)} ${scale.label}`;
+};
+
+// Ticks along an edge of `length` world px: offset from the zero mark, size class and label
+export const getScaleTicks = (length: number, settings = current) => {
+  const scale = UNIT_SCALES[settings.unit];
+  const step = getPxPerUnit(settings) * scale.minor;
+  const ticks: { offset: number, size: 'minor' | 'mid' | 'major', label?: string }[] = [];
+  for (let i = 0; i * step <= length; i++) {
+    if (i % scale.major === 0) {
+      ticks.push({ offset: i * step, size: 'major', label: `${Math.round(i * scale.minor * 1000) / 1000}` });
+    } else {
+      ticks.push({ offset: i * step, size: i % scale.mid === 0 ? 'mid' : 'minor' });
+    }
+  }
+  return ticks;
+};
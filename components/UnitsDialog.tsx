@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { LengthUnit, UnitSettings } from '../types';
+import { CALIBRATION_LENGTH_CM, DEFAULT_PX_PER_CM, MIN_PX_PER_CM, MAX_PX_PER_CM } from '../constants';
+import { UNIT_SCALES } from './Units';
+import { FaRuler } from 'react-icons/fa';
+
+interface UnitsDialogProps {
+  settings: UnitSettings;
+  onChange: (settings: UnitSettings) => void;
+  onClose: () => void;
+}
+
+const UNITS: LengthUnit[] = ['cm', 'mm', 'in'];
+
+const UnitsDialog: React.FC<UnitsDialogProps> = ({ settings, onChange, onClose }) => {
+  const set = (patch: Partial<UnitSettings>) => onChange({ ...settings, ...patch });
+  const barWidth = settings.pxPerCm * CALIBRATION_LENGTH_CM;
+  // What's typed in the number box; applied (and clamped) only on blur or Enter so partial values like "1" survive
+  const [draft, setDraft] = useState<string | null>(null);
+  const commitDraft = () => {
+    if (draft === null) return;
+    set({ pxPerCm: Number(draft) || DEFAULT_PX_PER_CM });
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-white rounded-xl shadow-2xl w-[560px] max-w-[95vw] p-6">
+        <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+          <FaRuler className="text-teal-600"/> Units & Calibration
+        </h2>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Unit</label>
+          <div className="flex gap-2">
+            {UNITS.map(unit => (
+              <button
+                key={unit}
+                onClick={() => set({ unit })}
+                className={`flex-1 py-2 text-sm border rounded ${settings.unit === unit ? 'bg-teal-50 border-teal-500 text-teal-700 font-medium' : 'hover:bg-slate-50'}`}
+              >
+                {UNIT_SCALES[unit].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">Calibration</label>
+          <p className="text-xs text-slate-500 mb-2">
+            Hold a real ruler against the screen and adjust until the bar is exactly {CALIBRATION_LENGTH_CM} cm long (board zoom 100%).
+          </p>
+          <div className="overflow-x-auto pb-2">
+            <div className="h-6 bg-teal-500/80 border-x-2 border-slate-900" style={{ width: barWidth }} />
+          </div>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={MIN_PX_PER_CM}
+              max={MAX_PX_PER_CM}
+              step={0.1}
+              value={settings.pxPerCm}
+              onChange={(e) => set({ pxPerCm: Number(e.target.value) })}
+              className="flex-1"
+            />
+            <input
+              type="number"
+              min={MIN_PX_PER_CM}
+              max={MAX_PX_PER_CM}
+              step={0.1}
+              value={draft ?? Math.round(settings.pxPerCm * 10) / 10}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commitDraft}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitDraft(); }}
+              className="w-20 border rounded px-2 py-1 text-sm"
+            />
+            <span className="text-xs text-slate-500">px / cm</span>
+          </div>
+          <button onClick={() => set({ pxPerCm: DEFAULT_PX_PER_CM })} className="mt-2 text-xs text-teal-700 hover:underline">
+            Reset to standard (96 DPI)
+          </button>
+        </div>
+
+        <label className="mb-4 flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={settings.dimensionLabels} onChange={(e) => set({ dimensionLabels: e.target.checked })} />
+          Label lines drawn along the ruler with their length
+        </label>
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-6 py-2 bg-teal-600 text-white rounded hover:bg-teal-700">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitsDialog;
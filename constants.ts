@@ -13,12 +13,131 @@ export const MODEL_IDS = {
   TEXT: 'gemini-2.5-flash',
 };
 
-export const TIKZ_API_URL = 'https://tikz-render-api.onrender.com/compile';
+// OpenAI-compatible provider; the model must accept images for solving
+export const OPENAI_DEFAULTS = {
+  baseUrl: 'https://api.openai.com/v1',
+  model: 'gpt-4o-mini',
+};
+
+// Solving a board region: raster scale sent to the vision model, and the layout of the answer placed beside it
+export const SOLVE_REGION = { scale: 2, gap: 24, wrapChars: 60 };
+// Handwriting to LaTeX: raster scale and world px of white margin around the ink
+export const HANDWRITING_OCR = { scale: 2, padding: 12 };
+
+// TikZ rendering: the hosted renderer cold-starts, so the default timeout is generous
+export const TIKZ_DEFAULT_BASE_URL = 'https://tikz-render-api.onrender.com';
+export const TIKZ_COMPILE_PATH = '/compile';
+export const TIKZ_TIMEOUT_MS = 60000;
+export const TIKZ_MIN_TIMEOUT_MS = 5000;
+export const TIKZ_PNG_DENSITY = 300;
+export const TIKZ_CACHE_LIMIT = 50;
+// Self-repair: compile attempts per generation (each retry costs one AI call), and how much of the log the model sees
+export const TIKZ_MAX_ATTEMPTS = 3;
+export const TIKZ_REPAIR_LOG_CHARS = 3000;
+
+// Board documents
+export const BOARD_SCHEMA_VERSION = 2;
+export const BOARD_FILE_EXTENSION = '.board.json';
+export const BOARD_DB_NAME = 'teaching-board';
+export const AUTOSAVE_DELAY_MS = 1000;
+export const RECENT_BOARDS_LIMIT = 10;
+
+// Undo / redo
+export const HISTORY_LIMIT = 100;
+export const HISTORY_MERGE_WINDOW_MS = 500;
+
+// Stylus: stroke width = width * (MIN + pressure * RANGE), so pressure 0.5 gives the nominal width
+export const PRESSURE_WIDTH_MIN = 0.25;
+export const PRESSURE_WIDTH_RANGE = 1.5;
+
+// Viewport
+export const GRID_STEP = 50;
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.2;
+export const FIT_PADDING = 60;
+
+// Rendering / spatial index
+export const SPATIAL_CELL_SIZE = 256; // world px per grid cell
+export const SPATIAL_MAX_CELLS = 64; // items spanning more cells than this are kept in a shared list
+export const ERASER_RADIUS = 20; // screen px, default eraser size
+export const ERASER_SIZES = [8, 20, 40, 80]; // screen px radii
+export const BENCHMARK_STROKE_COUNT = 10000;
+
+// Export
+export const EXPORT_DPI_OPTIONS = [72, 96, 150, 300];
+export const EXPORT_MAX_DIMENSION = 8192; // px, browsers refuse larger canvases
+export const EXPORT_PADDING = 20; // world px around "whole board" exports
+
+// Measurement instruments (one of each per page)
+export const MEASUREMENT_TOOL_TYPES = ['ruler', 'protractor', 'triangle', 'compass'];
+
+// Text widgets
+export const TEXT_FONT_SIZES = [14, 18, 24, 32, 48];
+export const TEXT_DEFAULTS = { fontSize: 18, color: '#000000', lineHeight: 1.3 };
+
+// Protractor
+export const PROTRACTOR_DEFAULT_ANGLE = 60;
+export const PROTRACTOR_RAY_LENGTH = 3; // pen snaps along the arm for this many radii
+
+// Compass: `radius` is the needle-to-pencil opening, `height` the leg length
+export const COMPASS_MIN_RADIUS = 10;
+export const COMPASS_LEGACY_RADIUS = 80; // fixed opening of compasses saved before `radius` existed
+export const COMPASS_MAX_OPENING = 0.95; // widest radius as a fraction of both legs laid flat
+export const COMPASS_ARC_STEP = 2; // degrees between points of a drawn arc
+export const NEEDLE_SNAP_DISTANCE = 12; // screen px
+
+// Units: CSS defines 96 px per inch; calibration corrects this for the actual display
+export const DEFAULT_PX_PER_CM = 96 / 2.54;
+export const MIN_PX_PER_CM = 10;
+export const MAX_PX_PER_CM = 200;
+export const CALIBRATION_LENGTH_CM = 10; // length of the on-screen bar compared against a real ruler
+export const MIN_DIMENSION_LENGTH = 20; // world px, shorter snapped strokes get no dimension label
+
+// Dynamic geometry
+export const GEOMETRY_LINE_EXTENT = 100000; // world px, "infinite" lines and rays are drawn this far
+export const GEOMETRY_POINT_RADIUS = 4;
+export const GEOMETRY_HIT_DISTANCE = 8; // screen px
+
+// Smart ink shape recognition (sizes in world px)
+export const SMART_INK = {
+  minSize: 40, // strokes with a smaller bounding-box diagonal stay ink
+  samples: 64, // points the stroke is resampled to
+  tolerance: 0.05, // allowed deviation from the fitted shape, relative to its size
+  closeGap: 20, // ends closer than this make a closed shape
+  rightAngleTolerance: 20, // degrees, for rectangles
+  axisSnap: 8, // degrees from horizontal / vertical that snap exactly
+  ellipseTolerance: 0.12, // mean relative distance from a fitted ellipse
+  circleRatio: 0.85, // ellipses rounder than this become circles
+  ellipseSegments: 72,
+  maxCorners: 6,
+  polylineStraightness: 0.04, // max deviation of the ink from each polyline segment, relative to the segment
+  polylineMaxAngle: 150, // degrees; blunter corners mean a curve, which stays ink
+  revertTimeout: 6000 // ms the "revert to ink" button stays up
+};
+
+// Shape tools
+export const SHAPE_DEFAULTS = { fillOpacity: 0.3, arrowhead: 'filled' as const };
+export const SHAPE_HANDLE_SIZE = 8; // world px, vertex handles of a selected shape
+export const SHAPE_CLOSE_DISTANCE = 10; // screen px, clicking this close to the first vertex closes a polygon
+
+// Graph widget
+export const GRAPH_DEFAULTS = {
+  width: 480,
+  height: 360,
+  xMin: -5, xMax: 5, yMin: -5, yMax: 5,
+  xTick: 1, yTick: 1,
+  tMin: 0, tMax: 2 * Math.PI,
+  expr: 'x^3 - 3x'
+};
+export const GRAPH_MAX_SAMPLES = 4096; // per curve, however far the board is zoomed in
+export const GRAPH_SCAN_STEPS = 600; // intervals scanned for roots, extrema and intersections
+export const GRAPH_MAX_POINTS = 24; // points of interest shown per graph
 
 // Tool default dimensions
 export const TOOL_DEFAULTS = {
   RULER: { width: 400, height: 50 },
   TRIANGLE: { width: 200, height: 200 },
-  PROTRACTOR: { radius: 100 },
+  PROTRACTOR: { radius: 160, armExtra: 40 }, // arm reaches past the rim by armExtra
   COMPASS: { radius: 100, height: 150 },
 };
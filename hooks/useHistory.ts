@@ -0,0 +1,103 @@
+import { useCallback, useRef, useState } from 'react';
+import { HISTORY_LIMIT, HISTORY_MERGE_WINDOW_MS } from '../constants';
+
+interface HistoryStacks<T> {
+  past: T[];
+  future: T[];
+}
+
+// Snapshot-based undo/redo for an immutable piece of state.
+// - record(mergeKey?): push the current value before a one-shot mutation. Repeated calls with the
+//   same mergeKey inside HISTORY_MERGE_WINDOW_MS collapse into one step (e.g. wheel rotation).
+// - capture() / commit(): for drags. capture() remembers the value at pointer-down and commit()
+//   pushes it on the first real change, so a whole drag is one step and a plain click is none.
+// Each `scope` (e.g. a page id) keeps its own stacks.
+export const useHistory = <T,>(value: T, setValue: (value: T) => void, scope = 'default') => {
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const allStacks = useRef(new Map<string, HistoryStacks<T>>());
+  const scopeRef = useRef(scope);
+  const pending = useRef<T | null>(null);
+  const lastMerge = useRef<{ key: string; time: number } | null>(null);
+  const [, setVersion] = useState(0);
+
+  if (scopeRef.current !== scope) {
+    scopeRef.current = scope;
+    pending.current = null;
+    lastMerge.current = null;
+  }
+
+  const getStacks = () => allStacks.current.get(scopeRef.current) || { past: [], future: [] };
+  const setStacks = (next: HistoryStacks<T>) => {
+    allStacks.current.set(scopeRef.current, next);
+  };
+
+  const push = useCallback((snapshot: T) => {
+    setStacks({
+      past: [...getStacks().past, snapshot].slice(-HISTORY_LIMIT),
+      future: []
+    });
+    setVersion(v => v + 1);
+  }, []);
+
+  const record = useCallback((mergeKey?: string) => {
+    const now = Date.now();
+    const last = lastMerge.current;
+    lastMerge.current = mergeKey ? { key: mergeKey, time: now } : null;
+    if (mergeKey && last && last.key === mergeKey && now - last.time < HISTORY_MERGE_WINDOW_MS) return;
+    push(valueRef.current);
+  }, [push]);
+
+  const capture = useCallback(() => {
+    pending.current = valueRef.current;
+  }, []);
+
+  const commit = useCallback(() => {
+    if (pending.current === null) return;
+    lastMerge.current = null;
+    push(pending.current);
+    pending.current = null;
+  }, [push]);
+
+  const step = useCallback((direction: 'undo' | 'redo') => {
+    const { past, future } = getStacks();
+    const current = valueRef.current;
+    let next: T;
+    if (direction === 'undo') {
+      if (past.length === 0) return;
+      next = past[past.length - 1];
+      setStacks({ past: past.slice(0, -1), future: [current, ...future] });
+    } else {
+      if (future.length === 0) return;
+      next = future[0];
+      setStacks({ past: [...past, current], future: future.slice(1) });
+    }
+    pending.current = null;
+    lastMerge.current = null;
+    setValue(next);
+    setVersion(v => v + 1);
+  }, [setValue]);
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  // Forget every scope (e.g. when another board is opened)
+  const reset = useCallback(() => {
+    allStacks.current.clear();
+    pending.current = null;
+    lastMerge.current = null;
+    setVersion(v => v + 1);
+  }, []);
+
+  return {
+    record,
+    capture,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: getStacks().past.length > 0,
+    canRedo: getStacks().future.length > 0
+  };
+};
@@ -0,0 +1,223 @@
+import { TIKZ_REPAIR_LOG_CHARS } from "../constants";
+import { AIResult, MathType, SolutionStep } from "../types";
+
+// Prompts and response parsing shared by every AI provider, so they all behave the same
+
+// Solutions are streamed, so the answer is sectioned plain text rather than JSON
+const OCR_MARK = "[OCR]";
+const STEP_MARK = "[STEP]";
+const WHY_MARK = "[WHY]";
+const ANSWER_MARK = "[ANSWER]";
+// Earlier layout (one block of paragraphs), still understood
+const SOLUTION_MARK = "[SOLUTION]";
+
+export const SOLVE_SYSTEM_PROMPT = `
+      You are a Math expert.
+      1. OCR the text in the image accurately. Use LaTeX for math expressions wrapped in $.
+      2. Solve the problem step-by-step clearly in Vietnamese.
+      3. Answer in exactly this plain-text layout, without JSON or code fences:
+      ${OCR_MARK}
+      <the problem as read from the image>
+      ${STEP_MARK} <short title of step 1>
+      <the math of the step, LaTeX wrapped in $>
+      ${WHY_MARK}
+      <one or two sentences explaining the step>
+      ${STEP_MARK} <short title of step 2>
+      ...
+      ${ANSWER_MARK}
+      <the final answer, LaTeX wrapped in $>
+    `;
+
+export const solveUserPrompt = (userPrompt: string) => `REQUEST:
+            - Read the image (OCR).
+            - Solve it.
+            - Format: ${OCR_MARK} ... ${STEP_MARK} ... ${WHY_MARK} ... ${ANSWER_MARK} ...
+            ${userPrompt ? `User Note: ${userPrompt}` : ''}`;
+
+// "[STEP] title\nbody\n[WHY]\nexplanation", without the leading marker
+const parseStep = (chunk: string): SolutionStep => {
+  const [head, explanation = ""] = chunk.split(WHY_MARK);
+  const newline = head.indexOf("\n");
+  return {
+    title: (newline === -1 ? head : head.slice(0, newline)).trim(),
+    body: newline === -1 ? "" : head.slice(newline + 1).trim(),
+    explanation: explanation.trim()
+  };
+};
+
+// Plain-text version of the steps, for the board and for display when steps are missing
+const stepText = (step: SolutionStep, index: number) =>
+  [`**${index + 1}. ${step.title}**`, step.body, step.explanation].filter(Boolean).join("\n");
+
+const joinSolution = (steps: SolutionStep[], answer: string) =>
+  [
+    ...steps.map(stepText),
+    ...(answer ? [`**Answer:** ${answer}`] : [])
+  ].join("\n\n");
+
+// Some models answer in JSON regardless
+type SolveJson = Partial<Pick<AIResult, "ocr" | "solution" | "answer">> & {
+  finalAnswer?: string;
+  steps?: Partial<SolutionStep & { latex: string }>[];
+};
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+
+const parseSolveJson = (raw: string): AIResult => {
+  try {
+    const parsed: unknown = JSON.parse(raw.slice(0, raw.lastIndexOf("}") + 1));
+    if (!parsed || typeof parsed !== "object") throw new Error("Not an object");
+    const json = parsed as SolveJson;
+    const steps: SolutionStep[] = (Array.isArray(json.steps) ? json.steps : [])
+      .filter(step => step && typeof step === "object")
+      .map(step => ({
+        title: asString(step.title),
+        body: asString(step.body) || asString(step.latex),
+        explanation: asString(step.explanation)
+      }));
+    const answer = asString(json.answer) || asString(json.finalAnswer);
+    return { ocr: asString(json.ocr), solution: asString(json.solution) || joinSolution(steps, answer), steps, answer };
+  } catch {
+    return { ocr: "", solution: raw, steps: [], answer: "" };
+  }
+};
+
+// Works on partial text while streaming; `final` fills in placeholders for missing sections
+export const parseSolveText = (text: string, final = false): AIResult => {
+  const trimmed = text.trim();
+  let result: AIResult;
+  if (trimmed.startsWith("{") && final) {
+    result = parseSolveJson(trimmed);
+  } else {
+    // A marker that is still arriving ("[STE") isn't content
+    const body = final ? text : text.replace(/\[[A-Z]*$/, "");
+    const ocrAt = body.indexOf(OCR_MARK);
+    const rest = ocrAt === -1 ? body : body.slice(ocrAt + OCR_MARK.length);
+    const solutionAt = rest.search(/\[(STEP|ANSWER|SOLUTION)\]/);
+    const solutionText = solutionAt === -1 ? "" : rest.slice(solutionAt);
+    const answerAt = solutionText.indexOf(ANSWER_MARK);
+    const answer = answerAt === -1 ? "" : solutionText.slice(answerAt + ANSWER_MARK.length).trim();
+    const steps = (answerAt === -1 ? solutionText : solutionText.slice(0, answerAt)).split(STEP_MARK).slice(1).map(parseStep);
+    result = {
+      ocr: solutionAt === -1 ? rest : rest.slice(0, solutionAt),
+      solution: steps.length || answer ? joinSolution(steps, answer) : solutionText.replace(SOLUTION_MARK, ""),
+      steps,
+      answer
+    };
+  }
+  const ocr = result.ocr.trim();
+  const solution = result.solution.trim();
+  return final
+    ? { ...result, ocr: ocr || "OCR Failed", solution: solution || "Could not generate solution." }
+    : { ...result, ocr, solution };
+};
+
+// Board text widgets only know inline $...$ math: drop markdown and display-math markers,
+// and wrap long lines at spaces outside formulas
+const toBoardText = (text: string, wrapChars: number) =>
+  text
+    .replace(/\*\*(.*?)\*\*/g, "$1")
+    .replace(/\$\$/g, "$")
+    .split("\n")
+    .flatMap(line => {
+      const lines: string[] = [];
+      let current = "";
+      let inMath = false;
+      for (const word of line.split(" ")) {
+        if (current && !inMath && current.length + word.length >= wrapChars) {
+          lines.push(current);
+          current = word;
+        } else {
+          current = current ? `${current} ${word}` : word;
+        }
+        if ((word.match(/\$/g) || []).length % 2) inMath = !inMath;
+      }
+      lines.push(current);
+      return lines;
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const stepToBoardText = (step: SolutionStep, index: number, wrapChars: number) =>
+  toBoardText(stepText(step, index), wrapChars);
+
+// One block per step, then the answer; the plain solution when the model gave no steps
+export const solutionToBoardBlocks = (result: AIResult, wrapChars: number): string[] =>
+  result.steps.length
+    ? [
+        ...result.steps.map((step, i) => stepToBoardText(step, i, wrapChars)),
+        ...(result.answer ? [toBoardText(`Answer: ${result.answer}`, wrapChars)] : [])
+      ]
+    : [toBoardText(result.solution, wrapChars)];
+
+// OCR only: transcribe, don't solve
+export const HANDWRITING_PROMPT = `
+      Transcribe the handwritten math in the image to LaTeX.
+      STRICT RULES:
+      1. Return ONLY the LaTeX. No explanation. No markdown backticks. No $ or \\[ \\] delimiters.
+      2. Do not solve, simplify or correct anything: keep exactly what is written.
+      3. One line of output per line of handwriting.
+    `;
+
+// Models add fences or math delimiters anyway
+export const extractLatex = (raw: string) =>
+  raw
+    .replace(/```(latex)?/g, "")
+    .split("\n")
+    .map(line => line.trim().replace(/^(\$+|\\\[|\\\()\s*/, "").replace(/\s*(\$+|\\\]|\\\))$/, ""))
+    .filter(Boolean)
+    .join("\n");
+
+const TIKZ_CONTEXT: Record<MathType, string> = {
+  [MathType.BBT]: "Create a Variation Table (bảng biến thiên) using tkz-tab.",
+  [MathType.GRAPH]: "Create a Function Graph with axis and grid.",
+  [MathType.CHART]: "Create a Chart (Pie or Bar)."
+};
+
+const TIKZ_RULES = `
+      STRICT RULES:
+      1. Return ONLY the code. No explanation. No markdown backticks.
+      2. Start immediately with \\begin{tikzpicture}
+      3. End immediately with \\end{tikzpicture}
+      4. Ensure all packages used are standard (tikz, pgfplots, tkz-tab).
+`;
+
+// Strict prompt to avoid conversational filler
+export const tikzPrompt = (description: string, type: MathType) => `
+      Task: Write LaTeX/TikZ code.
+      Type: ${TIKZ_CONTEXT[type]}
+      User Description: ${description}
+      ${TIKZ_RULES}
+    `;
+
+// Second chance for code that failed to compile: the model sees its code and the compiler's complaint
+export const tikzRepairPrompt = (code: string, log: string, description: string, type: MathType) => `
+      Task: Fix LaTeX/TikZ code that failed to compile. Keep the diagram the same, only fix the errors.
+      Type: ${TIKZ_CONTEXT[type]}
+      User Description: ${description}
+
+      CODE:
+      ${code}
+
+      COMPILER LOG (end):
+      ${log.slice(-TIKZ_REPAIR_LOG_CHARS)}
+      ${TIKZ_RULES}
+    `;
+
+// The model sometimes wraps the code in markdown or adds chatter around it
+export const extractTikzCode = (raw: string) => {
+  let text = raw.replace(/```latex/g, '').replace(/```/g, '');
+
+  const match = text.match(/\\begin{tikzpicture}[\s\S]*?\\end{tikzpicture}/);
+  if (match) {
+    text = match[0];
+  } else {
+      // Fallback: if regex fails, assume the whole text is code if it looks like it
+      if (!text.includes("\\begin{tikzpicture}")) {
+           text = `\\begin{tikzpicture}\n${text}\n\\end{tikzpicture}`;
+      }
+  }
+
+  return text.trim();
+};
@@ -0,0 +1,84 @@
+import { AIProviderId, AIResult, AISettings, MathType } from "../types";
+import { OPENAI_DEFAULTS } from "../constants";
+import { geminiProvider } from "./geminiService";
+import { createOpenAIProvider } from "./openaiService";
+import { mockProvider } from "./mockAIService";
+
+// The app talks to "the AI" through this module; which provider answers is a runtime setting.
+
+// Streaming: `onProgress` gets the partial result as text arrives; aborting `signal` rejects the request
+export interface SolveOptions {
+  onProgress?: (partial: AIResult) => void;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  solveMathFromImage: (base64Image: string, userPrompt: string, options?: SolveOptions) => Promise<AIResult>;
+  // OCR only: the handwritten math as LaTeX (no $ delimiters), one line per written line
+  recognizeHandwriting: (base64Image: string, signal?: AbortSignal) => Promise<string>;
+  generateTikzCode: (description: string, type: MathType) => Promise<string>;
+  repairTikzCode: (code: string, log: string, description: string, type: MathType) => Promise<string>;
+}
+
+// --- SETTINGS ---
+
+const STORAGE_KEY = "teaching-board:ai";
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: "gemini",
+  openai: { baseUrl: OPENAI_DEFAULTS.baseUrl, apiKey: "", model: OPENAI_DEFAULTS.model }
+};
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: createOpenAIProvider(() => settings.openai),
+  mock: mockProvider
+};
+
+export const AI_PROVIDERS = Object.values(PROVIDERS);
+
+const loadAISettings = (): AISettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved ? { ...DEFAULT_AI_SETTINGS, ...saved, openai: { ...DEFAULT_AI_SETTINGS.openai, ...saved.openai } } : DEFAULT_AI_SETTINGS;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+// "?ai=mock" picks a provider for this page load only (demos, automated tests)
+const urlProvider = (): AIProviderId | null => {
+  const id = new URLSearchParams(window.location.search).get("ai");
+  return id && id in PROVIDERS ? (id as AIProviderId) : null;
+};
+
+let settings = loadAISettings();
+let override = urlProvider();
+
+export const getAISettings = (): AISettings => (override ? { ...settings, provider: override } : settings);
+
+export const saveAISettings = (next: AISettings) => {
+  settings = next;
+  override = null;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  return getAISettings();
+};
+
+export const getAIProvider = () => PROVIDERS[getAISettings().provider];
+
+// --- REQUESTS ---
+
+export const solveMathFromImage = (base64Image: string, userPrompt: string, options?: SolveOptions) =>
+  getAIProvider().solveMathFromImage(base64Image, userPrompt, options);
+
+export const recognizeHandwriting = (base64Image: string, signal?: AbortSignal) =>
+  getAIProvider().recognizeHandwriting(base64Image, signal);
+
+export const generateTikzCode = (description: string, type: MathType) =>
+  getAIProvider().generateTikzCode(description, type);
+
+export const repairTikzCode = (code: string, log: string, description: string, type: MathType) =>
+  getAIProvider().repairTikzCode(code, log, description, type);
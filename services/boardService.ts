@@ -0,0 +1,168 @@
+import { v4 as uuidv4 } from "uuid";
+import { BOARD_SCHEMA_VERSION, BOARD_FILE_EXTENSION } from "../constants";
+import { BoardDocument, BoardPage, BoardSettings, CanvasItem, PageBackground } from "../types";
+import { downloadBlob } from "./exportService";
+
+const DEFAULT_BOARD_TITLE = "Untitled board";
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  snap: true,
+  smartInk: false,
+};
+
+export const createPage = (background: PageBackground = "grid", items: CanvasItem[] = []): BoardPage => ({
+  id: uuidv4(),
+  items,
+  background,
+});
+
+// Deep-enough copy for "duplicate page": new page id and new item ids
+export const duplicatePage = (page: BoardPage): BoardPage => {
+  // Geometry refers to its parents by id, so those references move to the copies too
+  const ids = new Map(page.items.map(item => [item.id, uuidv4()]));
+  return {
+    ...page,
+    id: uuidv4(),
+    items: page.items.map(item => {
+      const copy = { ...item, id: ids.get(item.id) as string };
+      if (copy.type === "geometry") copy.parents = copy.parents.map(id => ids.get(id) ?? id);
+      return copy;
+    }),
+  };
+};
+
+export const createBoardDocument = (title = DEFAULT_BOARD_TITLE): BoardDocument => {
+  const now = Date.now();
+  return {
+    version: BOARD_SCHEMA_VERSION,
+    id: uuidv4(),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    pages: [createPage()],
+    settings: { ...DEFAULT_BOARD_SETTINGS },
+  };
+};
+
+// A single empty page under the default title: nothing worth keeping yet
+export const isBlankBoard = (doc: BoardDocument) =>
+  doc.title === DEFAULT_BOARD_TITLE && doc.pages.length === 1 && doc.pages[0].items.length === 0;
+
+// --- MIGRATIONS ---
+
+// Each entry upgrades a document from version N to N + 1.
+// Version 0 is the bare CanvasItem[] array (before documents had a schema).
+type RawDocument = Record<string, unknown>;
+type VersionedDocument = RawDocument & { version: number };
+
+const isRecord = (value: unknown): value is RawDocument =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// v1 settings, before the grid toggle moved to the page background
+interface LegacySettings {
+  grid?: boolean;
+  snap?: boolean;
+}
+
+const migrations: Record<number, (doc: unknown) => VersionedDocument> = {
+  0: (doc) => {
+    const now = Date.now();
+    return {
+      version: 1,
+      id: uuidv4(),
+      title: "Imported board",
+      createdAt: now,
+      updatedAt: now,
+      items: Array.isArray(doc) ? doc : [],
+      settings: { grid: true, snap: true },
+    };
+  },
+  // v2: single item list -> pages; the grid toggle became the page background
+  1: (doc) => {
+    const { items, settings, ...rest } = isRecord(doc) ? doc : {};
+    const legacy: LegacySettings = isRecord(settings) ? settings : {};
+    return {
+      ...rest,
+      version: 2,
+      pages: [createPage(legacy.grid === false ? "plain" : "grid", Array.isArray(items) ? items : [])],
+      settings: { snap: legacy.snap ?? true },
+    };
+  },
+};
+
+const detectVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 0;
+  if (isRecord(raw) && typeof raw.version === "number") return raw.version;
+  throw new Error("Unrecognized board file");
+};
+
+export const migrateBoardDocument = (raw: unknown): BoardDocument => {
+  let version = detectVersion(raw);
+  if (version > BOARD_SCHEMA_VERSION) {
+    throw new Error(`Board was saved by a newer version (schema v${version})`);
+  }
+
+  let doc = raw;
+  while (version < BOARD_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from schema v${version}`);
+    const next = migrate(doc);
+    version = next.version;
+    doc = next;
+  }
+
+  if (!isRecord(doc) || !Array.isArray(doc.pages) || doc.pages.some((p: unknown) => !isRecord(p) || !Array.isArray(p.items))) {
+    throw new Error("Board file has no pages");
+  }
+
+  // Pages are checked above; missing id, title and settings are filled in here
+  const board = doc as Partial<BoardDocument> & Pick<BoardDocument, "version" | "pages">;
+  return {
+    ...board,
+    id: board.id || uuidv4(),
+    title: board.title || DEFAULT_BOARD_TITLE,
+    createdAt: board.createdAt ?? Date.now(),
+    updatedAt: board.updatedAt ?? Date.now(),
+    pages: board.pages.length > 0 ? board.pages : [createPage()],
+    settings: { ...DEFAULT_BOARD_SETTINGS, ...board.settings },
+  };
+};
+
+// --- SERIALIZATION ---
+
+// Selection is UI state, so it is not persisted.
+export const stripTransientState = (doc: BoardDocument): BoardDocument => ({
+  ...doc,
+  pages: doc.pages.map(page => ({
+    ...page,
+    items: page.items.map(item => ({ ...item, selected: false })),
+  })),
+});
+
+export const serializeBoard = (doc: BoardDocument): string => {
+  return JSON.stringify(stripTransientState(doc));
+};
+
+export const parseBoard = (json: string): BoardDocument => {
+  return migrateBoardDocument(JSON.parse(json));
+};
+
+// --- FILE IMPORT / EXPORT ---
+
+export const getSafeFileName = (title: string) => title.trim().replace(/[\\/:*?"<>|]+/g, "_") || "board";
+
+export const exportBoardFile = (doc: BoardDocument) => {
+  const blob = new Blob([serializeBoard(doc)], { type: "application/json" });
+  downloadBlob(blob, `${getSafeFileName(doc.title)}${BOARD_FILE_EXTENSION}`);
+};
+
+export const importBoardFile = async (file: File): Promise<BoardDocument> => {
+  try {
+    const doc = parseBoard(await file.text());
+    // Imported files get a fresh id so they never overwrite an existing board
+    return { ...doc, id: uuidv4(), updatedAt: Date.now() };
+  } catch (error) {
+    console.error("Board Import Error:", error);
+    throw error;
+  }
+};
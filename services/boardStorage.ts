@@ -0,0 +1,84 @@
+import { BOARD_DB_NAME, RECENT_BOARDS_LIMIT } from "../constants";
+import { BoardDocument, BoardSummary } from "../types";
+import { migrateBoardDocument, stripTransientState } from "./boardService";
+
+const DB_VERSION = 1;
+const STORE = "boards";
+const LAST_BOARD_KEY = "teaching-board:last-board-id";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(BOARD_DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wrap a single-store transaction in a promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    // Quota errors abort the transaction without an error event
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveBoard = async (doc: BoardDocument): Promise<void> => {
+  try {
+    await withStore("readwrite", store => store.put(stripTransientState(doc)));
+    localStorage.setItem(LAST_BOARD_KEY, doc.id);
+  } catch (error) {
+    console.error("Board Save Error:", error);
+    throw error;
+  }
+};
+
+export const loadBoard = async (id: string): Promise<BoardDocument | null> => {
+  const raw = await withStore("readonly", store => store.get(id));
+  return raw ? migrateBoardDocument(raw) : null;
+};
+
+export const deleteBoard = async (id: string): Promise<void> => {
+  await withStore("readwrite", store => store.delete(id));
+  if (localStorage.getItem(LAST_BOARD_KEY) === id) {
+    localStorage.removeItem(LAST_BOARD_KEY);
+  }
+};
+
+export const listRecentBoards = async (): Promise<BoardSummary[]> => {
+  const all = await withStore<BoardDocument[]>("readonly", store => store.getAll());
+  return all
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, RECENT_BOARDS_LIMIT)
+    .map(({ id, title, updatedAt }) => ({ id, title, updatedAt }));
+};
+
+export const loadLastBoard = async (): Promise<BoardDocument | null> => {
+  const id = localStorage.getItem(LAST_BOARD_KEY);
+  if (!id) return null;
+  try {
+    return await loadBoard(id);
+  } catch (error) {
+    console.error("Board Load Error:", error);
+    return null;
+  }
+};
@@ -0,0 +1,390 @@
+import { EXPORT_MAX_DIMENSION, GEOMETRY_POINT_RADIUS, GRID_STEP, MEASUREMENT_TOOL_TYPES, SHAPE_DEFAULTS } from "../constants";
+import { Bounds, CanvasItem, ExportOptions, GeometryObject, PageBackground, Point, ShapeItem, Stroke, StrokeStyle, Widget } from "../types";
+import { drawItem, drawPageBackground, getItemBounds, getPressureWidth, preloadImages } from "../components/CanvasUtils";
+import { getTextStyle, layoutText } from "../components/MathText";
+import { getCircleRadius, getLineEnds, isGeometry, isGeometryPoint } from "../components/Geometry";
+import { getArrowHead, getEllipseGeometry, isClosedShape, isShape } from "../components/ShapeUtils";
+
+export interface ExportPage {
+  items: CanvasItem[];
+  background: PageBackground;
+  bounds: Bounds;
+}
+
+// Screen px are CSS px (96 per inch)
+const CSS_DPI = 96;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Visible items without selection outlines, optionally without measurement tools
+export const prepareExportItems = (items: CanvasItem[], includeTools: boolean): CanvasItem[] =>
+  items
+    .filter(i => (i as Widget).visible !== false)
+    .filter(i => includeTools || !MEASUREMENT_TOOL_TYPES.includes(i.type))
+    .map(i => ({ ...i, selected: false }));
+
+// --- RASTER ---
+
+const clampScale = (bounds: Bounds, scale: number) => {
+  const largest = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1);
+  return Math.min(scale, EXPORT_MAX_DIMENSION / largest);
+};
+
+export const renderPageToCanvas = async (
+  page: ExportPage,
+  scale: number,
+  transparent: boolean
+): Promise<HTMLCanvasElement> => {
+  await preloadImages(page.items);
+
+  const { bounds } = page;
+  const s = clampScale(bounds, scale);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round((bounds.maxX - bounds.minX) * s));
+  canvas.height = Math.max(1, Math.round((bounds.maxY - bounds.minY) * s));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  if (!transparent) {
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.setTransform(s, 0, 0, s, -bounds.minX * s, -bounds.minY * s);
+  if (!transparent) drawPageBackground(ctx, page.background, bounds, s);
+  page.items.forEach(item => drawItem(ctx, item));
+  return canvas;
+};
+
+// Region snapshot for the AI; a lasso keeps only what lies inside it, on white
+export const renderRegionToDataUrl = async (page: ExportPage, scale: number, lasso?: Point[]) => {
+  const canvas = await renderPageToCanvas(page, scale, false);
+  if (lasso && lasso.length > 2) {
+    const ctx = canvas.getContext("2d") as CanvasRenderingContext2D;
+    const s = canvas.width / Math.max(page.bounds.maxX - page.bounds.minX, 1);
+    ctx.setTransform(s, 0, 0, s, -page.bounds.minX * s, -page.bounds.minY * s);
+    ctx.globalCompositeOperation = "destination-in";
+    ctx.beginPath();
+    lasso.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.fill();
+    ctx.globalCompositeOperation = "destination-over";
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(page.bounds.minX, page.bounds.minY, page.bounds.maxX - page.bounds.minX, page.bounds.maxY - page.bounds.minY);
+  }
+  return canvas.toDataURL("image/png");
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Export failed"))), type, quality);
+  });
+
+export const exportPng = async (page: ExportPage, options: ExportOptions, filename: string) => {
+  try {
+    const canvas = await renderPageToCanvas(page, options.dpi / CSS_DPI, options.transparent);
+    downloadBlob(await canvasToBlob(canvas, "image/png"), `${filename}.png`);
+  } catch (error) {
+    console.error("PNG Export Error:", error);
+    throw error;
+  }
+};
+
+// --- SVG ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const fmt = (n: number) => Number(n.toFixed(2));
+
+// Same smoothing as drawStroke: quadratic curves through the midpoints
+const strokePathData = (stroke: Stroke) => {
+  const pts = stroke.points;
+  let d = `M ${fmt(pts[0].x)} ${fmt(pts[0].y)}`;
+  if (stroke.shape) return `${d} ${pts.slice(1).map(p => `L ${fmt(p.x)} ${fmt(p.y)}`).join(" ")}`;
+  for (let i = 1; i < pts.length - 1; i++) {
+    const p1 = pts[i];
+    const p2 = pts[i + 1];
+    d += ` Q ${fmt(p1.x)} ${fmt(p1.y)} ${fmt((p1.x + p2.x) / 2)} ${fmt((p1.y + p2.y) / 2)}`;
+  }
+  const last = pts[pts.length - 1];
+  return `${d} L ${fmt(last.x)} ${fmt(last.y)}`;
+};
+
+const strokeToSvg = (stroke: Stroke): string => {
+  const pts = stroke.points;
+  if (pts.length < 2) return "";
+  const style = stroke.strokeStyle || "solid";
+
+  // Pressure ink: one segment per control point, like drawPressureStroke
+  if (style === "solid" && pts[0].pressure !== undefined) {
+    const segments: string[] = [];
+    let start = pts[0];
+    for (let i = 1; i < pts.length - 1; i++) {
+      const p1 = pts[i];
+      const mid = { x: (p1.x + pts[i + 1].x) / 2, y: (p1.y + pts[i + 1].y) / 2 };
+      segments.push(
+        `<path d="M ${fmt(start.x)} ${fmt(start.y)} Q ${fmt(p1.x)} ${fmt(p1.y)} ${fmt(mid.x)} ${fmt(mid.y)}" stroke-width="${fmt(getPressureWidth(stroke.width, p1.pressure))}"/>`
+      );
+      start = mid;
+    }
+    const last = pts[pts.length - 1];
+    segments.push(
+      `<path d="M ${fmt(start.x)} ${fmt(start.y)} L ${fmt(last.x)} ${fmt(last.y)}" stroke-width="${fmt(getPressureWidth(stroke.width, last.pressure))}"/>`
+    );
+    return `<g fill="none" stroke="${stroke.color}" stroke-linecap="round" stroke-linejoin="round">${segments.join("")}</g>`;
+  }
+
+  return `<path d="${strokePathData(stroke)}" fill="none" ${lineStyleAttrs(stroke.color, stroke.width, style)}/>`;
+};
+
+// Same dashes and marker look as applyLineStyle on canvas
+const lineStyleAttrs = (color: string, width: number, style: StrokeStyle) => {
+  const attrs = [
+    `stroke="${color}"`,
+    `stroke-width="${width}"`,
+    `stroke-linejoin="round"`,
+    `stroke-linecap="${style === "marker" ? "square" : "round"}"`,
+  ];
+  if (style === "dashed") attrs.push(`stroke-dasharray="10 10"`);
+  if (style === "dotted") attrs.push(`stroke-dasharray="2 8"`);
+  if (style === "marker") attrs.push(`opacity="0.4"`, `style="mix-blend-mode:multiply"`);
+  return attrs.join(" ");
+};
+
+const arrowHeadToSvg = (s: ShapeItem, from: Point, tip: Point) => {
+  const [left, right] = getArrowHead(from, tip, s.width);
+  const d = `M ${fmt(left.x)} ${fmt(left.y)} L ${fmt(tip.x)} ${fmt(tip.y)} L ${fmt(right.x)} ${fmt(right.y)}`;
+  return (s.arrowhead || SHAPE_DEFAULTS.arrowhead) === "open"
+    ? `<path d="${d}" fill="none" stroke="${s.color}" stroke-width="${s.width}" stroke-linecap="round" stroke-linejoin="round"/>`
+    : `<path d="${d} Z" fill="${s.color}" stroke="${s.color}" stroke-width="${s.width}" stroke-linejoin="round"/>`;
+};
+
+const shapeToSvg = (s: ShapeItem): string => {
+  if (s.points.length < 2) return "";
+  const fill = s.fill && isClosedShape(s) ? `fill="${s.fill}" fill-opacity="${s.fillOpacity ?? SHAPE_DEFAULTS.fillOpacity}"` : `fill="none"`;
+  const line = lineStyleAttrs(s.color, s.width, s.strokeStyle || "solid");
+  if (s.kind === "ellipse") {
+    const { center, rx, ry, angle } = getEllipseGeometry(s);
+    return `<ellipse cx="${fmt(center.x)}" cy="${fmt(center.y)}" rx="${fmt(rx)}" ry="${fmt(ry)}" transform="rotate(${fmt(angle * 180 / Math.PI)} ${fmt(center.x)} ${fmt(center.y)})" ${fill} ${line}/>`;
+  }
+  const d = s.points.map((p, i) => `${i === 0 ? "M" : "L"} ${fmt(p.x)} ${fmt(p.y)}`).join(" ") + (isClosedShape(s) ? " Z" : "");
+  const body = `<path d="${d}" ${fill} ${line}/>`;
+  if (s.kind !== "arrow") return body;
+  const [from, to] = s.points;
+  return body + arrowHeadToSvg(s, from, to) + (s.arrowhead === "double" ? arrowHeadToSvg(s, to, from) : "");
+};
+
+const widgetTransform = (w: Widget, extra = "") =>
+  `transform="translate(${fmt(w.x)} ${fmt(w.y)}) rotate(${fmt(w.angle)})${extra}"`;
+
+// Measurement tools and graphs have no vector form; embed them as a crisp raster
+const rasterItemToSvg = async (item: CanvasItem): Promise<string> => {
+  const bounds = getItemBounds(item);
+  const canvas = await renderPageToCanvas({ items: [item], background: "plain", bounds }, 2, true);
+  return `<image href="${canvas.toDataURL("image/png")}" x="${fmt(bounds.minX)}" y="${fmt(bounds.minY)}" width="${fmt(bounds.maxX - bounds.minX)}" height="${fmt(bounds.maxY - bounds.minY)}"/>`;
+};
+
+// Lines and rays run far past the page; the viewBox clips them
+const geometryToSvg = (g: GeometryObject): string => {
+  if (!g.defined) return "";
+  if (isGeometryPoint(g)) {
+    const p = g.anchors[0];
+    const fill = g.kind === "point" ? g.color : "#ffffff";
+    const dot = `<circle cx="${fmt(p.x)}" cy="${fmt(p.y)}" r="${GEOMETRY_POINT_RADIUS}" fill="${fill}" stroke="${g.color}" stroke-width="1.5"/>`;
+    const label = g.label
+      ? `<text x="${fmt(p.x + 7)}" y="${fmt(p.y - 7)}" font-family="serif" font-style="italic" font-size="16" fill="${g.color}">${escapeXml(g.label)}</text>`
+      : "";
+    return dot + label;
+  }
+  const width = g.kind === "perpendicular" || g.kind === "parallel" ? 1.5 : 2;
+  if (g.kind === "circle") {
+    const c = g.anchors[0];
+    return `<circle cx="${fmt(c.x)}" cy="${fmt(c.y)}" r="${fmt(getCircleRadius(g))}" fill="none" stroke="${g.color}" stroke-width="${width}"/>`;
+  }
+  const [a, b] = getLineEnds(g);
+  return `<line x1="${fmt(a.x)}" y1="${fmt(a.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}" stroke="${g.color}" stroke-width="${width}" stroke-linecap="round"/>`;
+};
+
+const itemToSvg = async (item: CanvasItem): Promise<string> => {
+  if (item.type === "stroke") return strokeToSvg(item as Stroke);
+  if (isGeometry(item)) return geometryToSvg(item);
+  if (isShape(item)) return shapeToSvg(item);
+
+  const w = item as Widget;
+  if ((w.type === "image" || w.type === "tikz") && w.src) {
+    const iw = w.width || 100;
+    const ih = w.height || 100;
+    return `<image href="${escapeXml(w.src)}" x="${fmt(-iw / 2)}" y="${fmt(-ih / 2)}" width="${iw}" height="${ih}" ${widgetTransform(w, ` scale(${w.scale})`)}/>`;
+  }
+  if (w.type === "text") {
+    if (!w.text) return "";
+    const { fontSize, color } = getTextStyle(w);
+    const runs = layoutText(w).runs.map(run => {
+      if (run.kind === "math" && run.math) {
+        // MathJax output is already SVG: nest it as true vector
+        const top = run.y - (run.math.height - run.math.descent);
+        return `<g transform="translate(${fmt(run.x)} ${fmt(top)})">${run.math.svg}</g>`;
+      }
+      const text = run.kind === "math" ? `$${run.text}$` : run.text;
+      return `<text x="${fmt(run.x)}" y="${fmt(run.y)}" xml:space="preserve">${escapeXml(text)}</text>`;
+    });
+    return `<g ${widgetTransform(w)} font-family="sans-serif" font-size="${fontSize}" font-weight="${w.bold ? "bold" : "normal"}" fill="${color}">${runs.join("")}</g>`;
+  }
+  return rasterItemToSvg(item);
+};
+
+const backgroundToSvg = (background: PageBackground, bounds: Bounds): string => {
+  if (background === "plain") return "";
+  const step = GRID_STEP;
+  const lines: string[] = [];
+  const startX = Math.floor(bounds.minX / step) * step;
+  const startY = Math.floor(bounds.minY / step) * step;
+
+  if (background === "dotted") {
+    for (let x = startX; x < bounds.maxX; x += step) {
+      for (let y = startY; y < bounds.maxY; y += step) lines.push(`<circle cx="${x}" cy="${y}" r="1.5"/>`);
+    }
+    return `<g fill="#cbd5e1">${lines.join("")}</g>`;
+  }
+
+  let d = "";
+  if (background === "grid") {
+    for (let x = startX; x < bounds.maxX; x += step) d += `M ${x} ${fmt(bounds.minY)} V ${fmt(bounds.maxY)} `;
+  }
+  for (let y = startY; y < bounds.maxY; y += step) d += `M ${fmt(bounds.minX)} ${y} H ${fmt(bounds.maxX)} `;
+  return `<path d="${d.trim()}" stroke="${background === "lined" ? "#dbeafe" : "#f1f5f9"}" stroke-width="1" fill="none"/>`;
+};
+
+export const buildSvg = async (page: ExportPage, transparent: boolean): Promise<string> => {
+  const { bounds } = page;
+  const width = fmt(bounds.maxX - bounds.minX);
+  const height = fmt(bounds.maxY - bounds.minY);
+  const body = await Promise.all(page.items.map(itemToSvg));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${fmt(bounds.minX)} ${fmt(bounds.minY)} ${width} ${height}">`,
+    transparent ? "" : `<rect x="${fmt(bounds.minX)}" y="${fmt(bounds.minY)}" width="${width}" height="${height}" fill="#fff"/>`,
+    transparent ? "" : backgroundToSvg(page.background, bounds),
+    ...body,
+    `</svg>`,
+  ].join("\n");
+};
+
+export const exportSvg = async (page: ExportPage, options: ExportOptions, filename: string) => {
+  try {
+    const svg = await buildSvg(page, options.transparent);
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+  } catch (error) {
+    console.error("SVG Export Error:", error);
+    throw error;
+  }
+};
+
+// --- PDF ---
+
+// A4 in PDF points
+const A4 = { width: 595.28, height: 841.89 };
+const PDF_MARGIN = 36;
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.split(",")[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+interface PdfImage {
+  jpeg: Uint8Array;
+  width: number; // px
+  height: number; // px
+}
+
+// Minimal PDF 1.4 writer: one JPEG (DCTDecode) image per A4 page, fitted inside the margins
+const buildPdf = (images: PdfImage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Object ids: 1 catalog, 2 page tree, then (page, content, image) per page
+  const pageIds = images.map((_, i) => 3 + i * 3);
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${images.length} >>\nendobj\n`);
+
+  images.forEach((img, i) => {
+    const pageId = pageIds[i];
+    const landscape = img.width > img.height;
+    const pageW = landscape ? A4.height : A4.width;
+    const pageH = landscape ? A4.width : A4.height;
+    const fit = Math.min((pageW - PDF_MARGIN * 2) / img.width, (pageH - PDF_MARGIN * 2) / img.height);
+    const drawW = img.width * fit;
+    const drawH = img.height * fit;
+    const content = `q ${fmt(drawW)} 0 0 ${fmt(drawH)} ${fmt((pageW - drawW) / 2)} ${fmt((pageH - drawH) / 2)} cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(pageW)} ${fmt(pageH)}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+    );
+    startObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(pageId + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.jpeg.length} >>\nstream\n`
+    );
+    write(img.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const xrefOffset = length;
+  const objectCount = 3 + images.length * 3;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+};
+
+export const exportPdf = async (pages: ExportPage[], options: ExportOptions, filename: string) => {
+  try {
+    const images: PdfImage[] = [];
+    for (const page of pages) {
+      // PDF pages are always opaque (JPEG has no alpha)
+      const canvas = await renderPageToCanvas(page, options.dpi / CSS_DPI, false);
+      images.push({
+        jpeg: dataUrlToBytes(canvas.toDataURL("image/jpeg", 0.92)),
+        width: canvas.width,
+        height: canvas.height,
+      });
+    }
+    downloadBlob(buildPdf(images), `${filename}.pdf`);
+  } catch (error) {
+    console.error("PDF Export Error:", error);
+    throw error;
+  }
+};
@@ -1,122 +1,108 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
 import { MODEL_IDS } from "../constants";
-import { AIResult } from "../types";
+import { AIProvider } from "./aiService";
+import { SOLVE_SYSTEM_PROMPT, solveUserPrompt, parseSolveText, HANDWRITING_PROMPT, extractLatex, tikzPrompt, tikzRepairPrompt, extractTikzCode } from "./aiPrompts";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini Client, created on first use so the app still starts without a key
+let ai: GoogleGenAI | null = null;
+const getClient = () => (ai ??= new GoogleGenAI({ apiKey: process.env.API_KEY }));
 
-export const solveMathFromImage = async (
-  base64Image: string,
-  userPrompt: string
-): Promise<AIResult> => {
-  try {
-    const systemInstruction = `
-      You are a Math expert. 
-      1. OCR the text in the image accurately. Use LaTeX for math expressions wrapped in $.
-      2. Solve the problem step-by-step clearly in Vietnamese.
-      3. Return the result as a valid JSON object with keys "ocr" and "solution".
-    `;
+const generateText = async (prompt: string) => {
+  const response = await getClient().models.generateContent({
+    model: MODEL_IDS.TEXT,
+    contents: prompt,
+    config: {
+      temperature: 0.1, // Lower temperature for more deterministic code
+    }
+  });
+  return response.text || "";
+};
 
-    const response = await ai.models.generateContent({
-      model: MODEL_IDS.VISION,
-      contents: {
-        role: 'user',
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: base64Image
+export const geminiProvider: AIProvider = {
+  id: "gemini",
+  label: "Gemini 2.5 Flash",
+  isConfigured: () => !!process.env.API_KEY,
+
+  solveMathFromImage: async (base64Image, userPrompt, options = {}) => {
+    try {
+      const stream = await getClient().models.generateContentStream({
+        model: MODEL_IDS.VISION,
+        contents: {
+          role: 'user',
+          parts: [
+            {
+              inlineData: {
+                mimeType: 'image/png',
+                data: base64Image
+              }
+            },
+            {
+              text: solveUserPrompt(userPrompt)
             }
-          },
-          {
-            text: `REQUEST:
-            - Read the image (OCR).
-            - Solve it.
-            - Format: JSON { "ocr": "...", "solution": "..." }
-            ${userPrompt ? `User Note: ${userPrompt}` : ''}`
-          }
-        ]
-      },
-      config: {
-        temperature: 0.2,
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            ocr: { type: Type.STRING },
-            solution: { type: Type.STRING }
-          },
-          required: ["ocr", "solution"]
+          ]
+        },
+        config: {
+          temperature: 0.2,
+          systemInstruction: SOLVE_SYSTEM_PROMPT,
+          abortSignal: options.signal
         }
-      }
-    });
+      });
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
-
-    const parsed = JSON.parse(text);
-    return {
-      ocr: parsed.ocr || "OCR Failed",
-      solution: parsed.solution || "Could not generate solution."
-    };
-
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    throw error;
-  }
-};
+      let text = "";
+      for await (const chunk of stream) {
+        options.signal?.throwIfAborted();
+        text += chunk.text || "";
+        options.onProgress?.(parseSolveText(text));
+      }
+      if (!text) throw new Error("No response from Gemini");
+      return parseSolveText(text, true);
 
-export const generateTikzCode = async (
-  description: string,
-  type: 'bbt' | 'graph' | 'chart'
-): Promise<string> => {
-  try {
-    const contextMap = {
-      bbt: "Create a Variation Table (bảng biến thiên) using tkz-tab.",
-      graph: "Create a Function Graph with axis and grid.",
-      chart: "Create a Chart (Pie or Bar)."
-    };
+    } catch (error) {
+      console.error("Gemini Error:", error);
+      throw error;
+    }
+  },
 
-    // Strict prompt to avoid conversational filler
-    const prompt = `
-      Task: Write LaTeX/TikZ code.
-      Type: ${contextMap[type]}
-      User Description: ${description}
-      
-      STRICT RULES:
-      1. Return ONLY the code. No explanation. No markdown backticks.
-      2. Start immediately with \\begin{tikzpicture}
-      3. End immediately with \\end{tikzpicture}
-      4. Ensure all packages used are standard (tikz, pgfplots, tkz-tab).
-    `;
+  recognizeHandwriting: async (base64Image, signal) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: MODEL_IDS.VISION,
+        contents: {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: base64Image } },
+            { text: HANDWRITING_PROMPT }
+          ]
+        },
+        config: {
+          temperature: 0,
+          abortSignal: signal
+        }
+      });
+      const latex = extractLatex(response.text || "");
+      if (!latex) throw new Error("No response from Gemini");
+      return latex;
+    } catch (error) {
+      console.error("Handwriting Recognition Error:", error);
+      throw error;
+    }
+  },
 
-    const response = await ai.models.generateContent({
-      model: MODEL_IDS.TEXT,
-      contents: prompt,
-      config: {
-        temperature: 0.1, // Lower temperature for more deterministic code
-      }
-    });
+  generateTikzCode: async (description, type) => {
+    try {
+      return extractTikzCode(await generateText(tikzPrompt(description, type)));
+    } catch (error) {
+      console.error("TikZ Generation Error:", error);
+      throw error;
+    }
+  },
 
-    let text = response.text || "";
-    
-    // robust cleanup
-    text = text.replace(/```latex/g, '').replace(/```/g, '');
-    
-    const match = text.match(/\\begin{tikzpicture}[\s\S]*?\\end{tikzpicture}/);
-    if (match) {
-      text = match[0];
-    } else {
-        // Fallback: if regex fails, assume the whole text is code if it looks like it
-        if (!text.includes("\\begin{tikzpicture}")) {
-             text = `\\begin{tikzpicture}\n${text}\n\\end{tikzpicture}`;
-        }
+  repairTikzCode: async (code, log, description, type) => {
+    try {
+      return extractTikzCode(await generateText(tikzRepairPrompt(code, log, description, type)));
+    } catch (error) {
+      console.error("TikZ Repair Error:", error);
+      throw error;
     }
-    
-    return text.trim();
-  } catch (error) {
-    console.error("TikZ Generation Error:", error);
-    throw error;
   }
-};
\ No newline at end of file
+};
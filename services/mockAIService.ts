@@ -0,0 +1,77 @@
+import { MathType } from "../types";
+import { AIProvider } from "./aiService";
+import { parseSolveText } from "./aiPrompts";
+
+// Canned, deterministic answers: the board can be demoed and tested without network or API key.
+
+// Streamed a few words at a time, like a real model
+const MOCK_CHUNK_DELAY_MS = 40;
+
+const MOCK_ANSWER = `[OCR]
+Giải phương trình $x^2 - 5x + 6 = 0$
+[STEP] Xác định hệ số
+$a = 1$, $b = -5$, $c = 6$
+[WHY]
+Phương trình có dạng $ax^2 + bx + c = 0$.
+[STEP] Tính biệt thức
+$\\Delta = b^2 - 4ac = 25 - 24 = 1 > 0$
+[WHY]
+$\\Delta > 0$ nên phương trình có hai nghiệm phân biệt.
+[STEP] Tìm nghiệm
+$x_1 = \\frac{5 + 1}{2} = 3$, $x_2 = \\frac{5 - 1}{2} = 2$
+[WHY]
+Áp dụng công thức nghiệm $x = \\frac{-b \\pm \\sqrt{\\Delta}}{2a}$.
+[ANSWER]
+$S = \\{2; 3\\}$`;
+
+const MOCK_HANDWRITING = "x^2 - 5x + 6 = 0";
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const MOCK_TIKZ: Record<MathType, string> = {
+  [MathType.BBT]: `\\begin{tikzpicture}
+\\tkzTabInit{$x$ / 1, $y'$ / 1, $y$ / 2}{$-\\infty$, $-1$, $1$, $+\\infty$}
+\\tkzTabLine{, +, z, -, z, +, }
+\\tkzTabVar{-/ $-\\infty$, +/ $2$, -/ $-2$, +/ $+\\infty$}
+\\end{tikzpicture}`,
+  [MathType.GRAPH]: `\\begin{tikzpicture}
+\\begin{axis}[axis lines=middle, grid=both, xmin=-3, xmax=3, ymin=-4, ymax=4, xlabel=$x$, ylabel=$y$]
+\\addplot[blue, thick, domain=-2.5:2.5, samples=100] {x^3 - 3*x};
+\\end{axis}
+\\end{tikzpicture}`,
+  [MathType.CHART]: `\\begin{tikzpicture}
+\\begin{axis}[ybar, symbolic x coords={A, B, C, D}, xtick=data, ymin=0]
+\\addplot coordinates {(A, 4) (B, 7) (C, 3) (D, 5)};
+\\end{axis}
+\\end{tikzpicture}`
+};
+
+export const mockProvider: AIProvider = {
+  id: "mock",
+  label: "Offline demo (mock)",
+  isConfigured: () => true,
+  solveMathFromImage: async (_base64Image, _userPrompt, options = {}) => {
+    const words = MOCK_ANSWER.split(/(?<=\s)/);
+    let text = "";
+    for (let i = 0; i < words.length; i += 3) {
+      await delay(MOCK_CHUNK_DELAY_MS, options.signal);
+      text += words.slice(i, i + 3).join("");
+      options.onProgress?.(parseSolveText(text));
+    }
+    return parseSolveText(text, true);
+  },
+  recognizeHandwriting: async (_base64Image, signal) => {
+    await delay(MOCK_CHUNK_DELAY_MS * 10, signal);
+    return MOCK_HANDWRITING;
+  },
+  generateTikzCode: async (_description, type) => MOCK_TIKZ[type],
+  // Nothing to learn from the log: hand the code back, the repair loop's bound ends it
+  repairTikzCode: async (code) => code
+};
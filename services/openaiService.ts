@@ -0,0 +1,144 @@
+import { OpenAISettings } from "../types";
+import { AIProvider } from "./aiService";
+import { SOLVE_SYSTEM_PROMPT, solveUserPrompt, parseSolveText, HANDWRITING_PROMPT, extractLatex, tikzPrompt, tikzRepairPrompt, extractTikzCode } from "./aiPrompts";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a local model server
+// (Ollama, LM Studio, vLLM...) so the board works where Gemini can't be used.
+
+type ChatContent = string | ({ type: "text", text: string } | { type: "image_url", image_url: { url: string } })[];
+
+type ChatMessage = { role: "system" | "user", content: ChatContent };
+
+const post = async (settings: OpenAISettings, body: object, signal?: AbortSignal) => {
+  const response = await fetch(`${settings.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({ model: settings.model, ...body }),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`AI API Error: ${response.status} ${response.statusText}`);
+  }
+  return response;
+};
+
+const chat = async (settings: OpenAISettings, messages: ChatMessage[], temperature: number, signal?: AbortSignal) => {
+  const response = await post(settings, { messages, temperature }, signal);
+
+  const data = await response.json();
+  const text = data.choices?.[0]?.message?.content;
+  if (!text) throw new Error("No response from the AI server");
+  return text as string;
+};
+
+// Text of one "data: {json}" line; anything else (keep-alive comments, error payloads) is skipped
+const parseDelta = (line: string): string => {
+  const data = line.replace(/^data:/, "").trim();
+  if (!line.startsWith("data:") || data === "[DONE]") return "";
+  try {
+    return JSON.parse(data).choices?.[0]?.delta?.content || "";
+  } catch {
+    return "";
+  }
+};
+
+// Server-sent events: one "data: {json}" line per delta, then "data: [DONE]"
+const streamChat = async (
+  settings: OpenAISettings,
+  messages: ChatMessage[],
+  temperature: number,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+) => {
+  const response = await post(settings, { messages, temperature, stream: true }, signal);
+  if (!response.body) throw new Error("No response from the AI server");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  const read = (lines: string[]) => {
+    for (const line of lines) {
+      const delta = parseDelta(line);
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    read(lines);
+  }
+  // The last line may come without a trailing newline
+  read([buffer + decoder.decode()]);
+  if (!text) throw new Error("No response from the AI server");
+  return text;
+};
+
+export const createOpenAIProvider = (getSettings: () => OpenAISettings): AIProvider => ({
+  id: "openai",
+  label: "OpenAI-compatible",
+  isConfigured: () => !!getSettings().baseUrl && !!getSettings().model,
+
+  solveMathFromImage: async (base64Image, userPrompt, options = {}) => {
+    try {
+      const text = await streamChat(getSettings(), [
+        { role: "system", content: SOLVE_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            { type: "image_url", image_url: { url: `data:image/png;base64,${base64Image}` } },
+            { type: "text", text: solveUserPrompt(userPrompt) }
+          ]
+        }
+      ], 0.2, partial => options.onProgress?.(parseSolveText(partial)), options.signal);
+      return parseSolveText(text, true);
+    } catch (error) {
+      console.error("OpenAI-compatible Error:", error);
+      throw error;
+    }
+  },
+
+  recognizeHandwriting: async (base64Image, signal) => {
+    try {
+      const latex = extractLatex(await chat(getSettings(), [{
+        role: "user",
+        content: [
+          { type: "image_url", image_url: { url: `data:image/png;base64,${base64Image}` } },
+          { type: "text", text: HANDWRITING_PROMPT }
+        ]
+      }], 0, signal));
+      if (!latex) throw new Error("No response from the AI server");
+      return latex;
+    } catch (error) {
+      console.error("Handwriting Recognition Error:", error);
+      throw error;
+    }
+  },
+
+  generateTikzCode: async (description, type) => {
+    try {
+      return extractTikzCode(await chat(getSettings(), [{ role: "user", content: tikzPrompt(description, type) }], 0.1));
+    } catch (error) {
+      console.error("TikZ Generation Error:", error);
+      throw error;
+    }
+  },
+
+  repairTikzCode: async (code, log, description, type) => {
+    try {
+      return extractTikzCode(await chat(getSettings(), [{ role: "user", content: tikzRepairPrompt(code, log, description, type) }], 0.1));
+    } catch (error) {
+      console.error("TikZ Repair Error:", error);
+      throw error;
+    }
+  }
+});
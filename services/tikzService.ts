@@ -1,33 +1,215 @@
-import { TIKZ_API_URL } from "../constants";
+import { TikzFormat, TikzRendererSettings, TikzRendererStatus, TikzRenderOptions, TikzRenderResult } from "../types";
+import { TIKZ_DEFAULT_BASE_URL, TIKZ_COMPILE_PATH, TIKZ_TIMEOUT_MS, TIKZ_MIN_TIMEOUT_MS, TIKZ_PNG_DENSITY, TIKZ_CACHE_LIMIT, TIKZ_MAX_ATTEMPTS } from "../constants";
 
-export const compileTikz = async (tikzCode: string): Promise<string> => {
+// TikZ -> image through a pluggable renderer. The default one talks to a tikz-render-api compatible
+// HTTP server whose base URL is a per-machine setting, so a local TeX container can stand in.
+
+export interface TikzRepairProgress {
+  attempt: number;
+  maxAttempts: number;
+  phase: "compiling" | "repairing";
+}
+
+export interface TikzRenderer {
+  name: string;
+  // Resolves to a data URL
+  compile: (source: string, options: TikzRenderOptions, signal: AbortSignal) => Promise<string>;
+}
+
+// --- SETTINGS ---
+
+const STORAGE_KEY = "teaching-board:tikz";
+
+export const DEFAULT_TIKZ_SETTINGS: TikzRendererSettings = {
+  baseUrl: TIKZ_DEFAULT_BASE_URL,
+  format: "png",
+  timeoutMs: TIKZ_TIMEOUT_MS
+};
+
+const loadTikzSettings = (): TikzRendererSettings => {
   try {
-    const response = await fetch(TIKZ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved ? { ...DEFAULT_TIKZ_SETTINGS, ...saved } : DEFAULT_TIKZ_SETTINGS;
+  } catch {
+    return DEFAULT_TIKZ_SETTINGS;
+  }
+};
+
+let settings = loadTikzSettings();
+
+export const getTikzSettings = () => settings;
+
+export const saveTikzSettings = (next: TikzRendererSettings) => {
+  settings = {
+    ...next,
+    baseUrl: next.baseUrl.trim().replace(/\/+$/, "") || TIKZ_DEFAULT_BASE_URL,
+    timeoutMs: Math.max(TIKZ_MIN_TIMEOUT_MS, next.timeoutMs || TIKZ_TIMEOUT_MS)
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  return settings;
+};
+
+// --- STATUS ---
+
+let status: { state: TikzRendererStatus, message: string } = { state: "idle", message: "" };
+const statusListeners = new Set<() => void>();
+
+export const getTikzStatus = () => status;
+
+export const subscribeTikzStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+};
+
+const setStatus = (state: TikzRendererStatus, message = "") => {
+  status = { state, message };
+  statusListeners.forEach(listener => listener());
+};
+
+// --- RENDERERS ---
+
+const COMPILE_FAILED = "Compilation Failed: ";
+
+// The LaTeX log of a compile error, null for network / server problems
+export const getCompileLog = (error: unknown) =>
+  error instanceof Error && error.message.startsWith(COMPILE_FAILED) ? error.message.slice(COMPILE_FAILED.length) : null;
+
+const MIME_TYPES: Record<TikzFormat, string> = { png: "image/png", svg: "image/svg+xml" };
+
+export const createHttpRenderer = (baseUrl: string): TikzRenderer => ({
+  name: baseUrl,
+  compile: async (source, options, signal) => {
+    const response = await fetch(`${baseUrl}${TIKZ_COMPILE_PATH}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        source: tikzCode,
-        mode: 'auto',
-        format: 'png',
-        density: 300,
-        transparent: true
-      })
+        source,
+        mode: "auto",
+        format: options.format,
+        density: options.density,
+        transparent: options.transparent
+      }),
+      signal
     });
 
     if (!response.ok) {
-      throw new Error(`TikZ API Error: ${response.statusText}`);
+      throw new Error(`TikZ API Error: ${response.status} ${response.statusText}`);
     }
 
     const data = await response.json();
     if (!data.ok && data.log) {
-      throw new Error(`Compilation Failed: ${data.log}`);
+      throw new Error(`${COMPILE_FAILED}${data.log}`);
+    }
+
+    if (typeof data.svg === "string") {
+      return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(data.svg)}`;
     }
+    if (!data.image_base64) throw new Error("TikZ API Error: the response contains no image");
+    return `data:${MIME_TYPES[options.format]};base64,${data.image_base64}`;
+  }
+});
+
+// Replaces the HTTP renderer (null goes back to it), e.g. for an in-browser TeX engine
+let customRenderer: TikzRenderer | null = null;
+
+export const setTikzRenderer = (renderer: TikzRenderer | null) => {
+  customRenderer = renderer;
+  setStatus("idle");
+};
+
+const getRenderer = () => customRenderer || createHttpRenderer(settings.baseUrl);
+
+// --- CACHE ---
+
+// cyrb53: fast 53-bit string hash, plenty for a few dozen entries
+const hash = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Most recently used last
+const cache = new Map<string, string>();
+
+const cacheKey = (source: string, options: TikzRenderOptions) =>
+  hash(`${source.trim()}\u0000${options.format}|${options.density}|${options.transparent}`);
+
+const remember = (key: string, src: string) => {
+  cache.delete(key);
+  cache.set(key, src);
+  if (cache.size > TIKZ_CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+};
+
+// --- COMPILING ---
+
+const render = async (tikzCode: string, overrides: Partial<TikzRenderOptions>, useCache: boolean): Promise<TikzRenderResult> => {
+  const options: TikzRenderOptions = { format: settings.format, density: TIKZ_PNG_DENSITY, transparent: true, ...overrides };
+  const key = cacheKey(tikzCode, options);
+  const hit = useCache && cache.get(key);
+  if (hit) {
+    remember(key, hit);
+    return { src: hit, format: options.format, cached: true };
+  }
 
-    return data.image_base64;
+  const renderer = getRenderer();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+  setStatus("compiling", `Compiling with ${renderer.name}`);
+  try {
+    const src = await renderer.compile(tikzCode, options, controller.signal);
+    if (useCache) remember(key, src);
+    setStatus("ready");
+    return { src, format: options.format, cached: false };
   } catch (error) {
     console.error("TikZ Compilation Error:", error);
+    if (controller.signal.aborted) {
+      const message = `The TikZ renderer did not answer within ${Math.round(settings.timeoutMs / 1000)} s`;
+      setStatus("offline", message);
+      throw new Error(message);
+    }
+    if (error instanceof TypeError) {
+      // fetch() rejects with a TypeError when the server can't be reached at all
+      const message = `Cannot reach the TikZ renderer at ${renderer.name}`;
+      setStatus("offline", message);
+      throw new Error(message);
+    }
+    setStatus("error", error instanceof Error ? error.message : String(error));
     throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const compileTikz = (tikzCode: string, overrides: Partial<TikzRenderOptions> = {}) => render(tikzCode, overrides, true);
+
+// Compiles a trivial picture, bypassing the cache
+export const testTikzRenderer = () => render("\\begin{tikzpicture}\\draw (0,0) -- (1,0);\\end{tikzpicture}", {}, false);
+
+// Compiles, handing LaTeX errors to `repair` for a new version of the code. Attempts are bounded,
+// since every repair is an AI call; the last error (with its log) is rethrown.
+export const compileWithRepair = async (
+  code: string,
+  repair: (code: string, log: string) => Promise<string>,
+  onProgress?: (progress: TikzRepairProgress) => void,
+  maxAttempts = TIKZ_MAX_ATTEMPTS
+): Promise<{ result: TikzRenderResult, code: string }> => {
+  let current = code;
+  for (let attempt = 1; ; attempt++) {
+    onProgress?.({ attempt, maxAttempts, phase: "compiling" });
+    try {
+      return { result: await compileTikz(current), code: current };
+    } catch (error) {
+      const log = getCompileLog(error);
+      if (log === null || attempt >= maxAttempts) throw error;
+      onProgress?.({ attempt: attempt + 1, maxAttempts, phase: "repairing" });
+      current = await repair(current, log);
+    }
   }
 };
@@ -7,15 +7,24 @@ export type ToolMode =
   | 'ruler' 
   | 'protractor' 
   | 'compass' 
-  | 'triangle';
+  | 'triangle'
+  | 'geometry'
+  | 'shape';
 
 export interface Point {
   x: number;
   y: number;
+  pressure?: number; // 0..1, only recorded for stylus input
 }
 
 export type StrokeStyle = 'solid' | 'dashed' | 'dotted' | 'marker';
 
+// Clean shapes that smart ink recognizes in freehand strokes
+export type ShapeKind = 'line' | 'polyline' | 'polygon' | 'rectangle' | 'circle' | 'ellipse' | 'arrow';
+
+// partial: cuts strokes where the eraser passes; object: removes whole strokes, text and images
+export type EraserMode = 'partial' | 'object';
+
 export interface Stroke {
   id: string;
   type: 'stroke';
@@ -23,11 +32,13 @@ export interface Stroke {
   color: string;
   width: number;
   strokeStyle?: StrokeStyle; // Added style
+  shape?: ShapeKind; // Recognized shape: points are exact corners, drawn without smoothing
+  selected?: boolean;
 }
 
 export interface Widget {
   id: string;
-  type: 'ruler' | 'protractor' | 'compass' | 'triangle' | 'image' | 'text';
+  type: 'ruler' | 'protractor' | 'compass' | 'triangle' | 'image' | 'text' | 'graph' | 'tikz';
   x: number;
   y: number;
   angle: number; // degrees
@@ -35,23 +46,220 @@ export interface Widget {
   selected: boolean;
   visible?: boolean; // Controls visibility without deletion
   // Specific properties
-  text?: string;
-  src?: string; // for images
+  text?: string; // multi-line, inline math as $...$
+  fontSize?: number; // text widgets (px)
+  color?: string; // text widgets
+  bold?: boolean; // text widgets
+  src?: string; // for images and compiled TikZ
   width?: number;
   height?: number;
   radius?: number;
   drawAngle?: number; // for compass animation/state
+  measureAngle?: number; // protractor arm, degrees counterclockwise from the right end of the baseline
+  graph?: GraphSpec; // graph widgets (width / height are the plot size)
+  tikz?: TikzSource; // TikZ diagrams: the code `src` was compiled from
+}
+
+// Kept with a compiled diagram so it can be edited and recompiled instead of regenerated
+export interface TikzSource {
+  code: string;
+  diagramType: MathType;
+  description: string; // what the diagram was generated from
+}
+
+// Function plotter: explicit y = f(x), parametric (x(t), y(t)) or polar r = f(θ)
+export type CurveKind = 'explicit' | 'parametric' | 'polar';
+
+export interface GraphCurve {
+  id: string;
+  kind: CurveKind;
+  expr: string; // f(x), x(t) or r(θ)
+  exprY?: string; // parametric y(t)
+  tMin?: number; // parameter range (parametric / polar)
+  tMax?: number;
+  color: string;
+}
+
+export interface GraphSpec {
+  curves: GraphCurve[];
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+  xTick: number;
+  yTick: number;
+  showGrid: boolean;
+  showPoints: boolean; // roots, extrema and intersections
+}
+
+// Dynamic geometry (GeoGebra-style): objects are defined by their parents and follow them when they move
+export type GeometryKind =
+  | 'point' // free, draggable
+  | 'midpoint'
+  | 'intersection'
+  | 'segment'
+  | 'ray'
+  | 'line'
+  | 'circle' // center + point on the circle
+  | 'perpendicular' // line + point
+  | 'parallel'; // line + point
+
+export interface GeometryObject {
+  id: string;
+  type: 'geometry';
+  kind: GeometryKind;
+  parents: string[]; // ids of the geometry objects it is built from
+  anchors: Point[]; // solved position: [point] | [from, through] for lines | [center, on circle]
+  defined: boolean; // false when the parents don't determine it (e.g. parallel lines never meet)
+  index?: number; // intersection: which of the two crossings with a circle
+  label?: string; // points: A, B, C...
+  color: string;
+  selected?: boolean;
+  visible?: boolean;
 }
 
-export type CanvasItem = Stroke | Widget;
+// Drawn with the shape tools and edited afterwards by dragging their vertices
+export type ShapeTool = 'line' | 'arrow' | 'rectangle' | 'ellipse' | 'polygon';
+
+export type ArrowheadStyle = 'open' | 'filled' | 'double';
+
+export interface ShapeItem {
+  id: string;
+  type: 'shape';
+  kind: ShapeTool;
+  points: Point[]; // line / arrow: [from, to]; rectangle / ellipse: the 4 box corners in order; polygon: vertices
+  color: string;
+  width: number;
+  strokeStyle?: StrokeStyle;
+  fill?: string; // no fill when unset
+  fillOpacity?: number; // 0..1
+  arrowhead?: ArrowheadStyle; // arrows only
+  selected?: boolean;
+  visible?: boolean;
+}
+
+export type CanvasItem = Stroke | Widget | GeometryObject | ShapeItem;
+
+// Screen = world * zoom + (x, y)
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export type PageBackground = 'plain' | 'grid' | 'lined' | 'dotted';
+
+// One board of a lesson deck (warm-up, theory, exercises...)
+export interface BoardPage {
+  id: string;
+  items: CanvasItem[];
+  background: PageBackground;
+}
+
+export type LengthUnit = 'cm' | 'mm' | 'in';
+
+// Per-display measuring setup (a projector and a laptop have different pixel sizes)
+export interface UnitSettings {
+  unit: LengthUnit;
+  pxPerCm: number; // CSS px per real centimetre at 100% zoom
+  dimensionLabels: boolean; // label segments drawn along a ruler with their length
+}
+
+export interface BoardSettings {
+  snap: boolean;
+  smartInk: boolean; // Recognize shapes in finished pen strokes
+}
+
+// Persisted board file (.board.json / IndexedDB record)
+export interface BoardDocument {
+  version: number; // schema version, see BOARD_SCHEMA_VERSION
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  pages: BoardPage[];
+  settings: BoardSettings;
+}
+
+// Lightweight entry for the "recent boards" list
+export interface BoardSummary {
+  id: string;
+  title: string;
+  updatedAt: number;
+}
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+export type ExportArea = 'board' | 'viewport' | 'selection';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  area: ExportArea;
+  dpi: number; // PNG / PDF raster resolution
+  transparent: boolean; // PNG / SVG only
+  includeTools: boolean; // ruler, compass, protractor, set square
+  allPages: boolean; // PDF only: one PDF page per board page
+}
+
+export interface SolutionStep {
+  title: string;
+  body: string; // the math of the step, LaTeX in $...$
+  explanation: string;
+}
 
 export interface AIResult {
   ocr: string;
-  solution: string;
+  solution: string; // the whole solution as plain text (also what models ignoring the step layout produce)
+  steps: SolutionStep[];
+  answer: string;
 }
 
 export enum MathType {
   BBT = 'bbt',
   GRAPH = 'graph',
   CHART = 'chart'
-}
\ No newline at end of file
+}
+
+export type TikzFormat = 'png' | 'svg';
+
+// Where and how TikZ is compiled; per machine (a school may run its own TeX container)
+export interface TikzRendererSettings {
+  baseUrl: string;
+  format: TikzFormat;
+  timeoutMs: number;
+}
+
+export interface TikzRenderOptions {
+  format: TikzFormat;
+  density: number; // PNG dpi
+  transparent: boolean;
+}
+
+export interface TikzRenderResult {
+  src: string; // data URL
+  format: TikzFormat;
+  cached: boolean;
+}
+
+export type TikzRendererStatus = 'idle' | 'compiling' | 'ready' | 'error' | 'offline';
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+// OpenAI-compatible chat completions server (OpenAI itself, or a local model server)
+export interface OpenAISettings {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+// Which AI answers solve and TikZ requests; per machine, like the TikZ renderer
+export interface AISettings {
+  provider: AIProviderId;
+  openai: OpenAISettings;
+}